@@ -0,0 +1,449 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as should from "should";
+import * as webchatty from "./webchatty";
+
+// Checks that a connector implementation keeps the promises written in its interface's comments.  Each test method
+// takes a factory for new, unstarted connectors; the suite injects the harness's server into them, so events go
+// through its dispatcher and usernames are checked against its accounts ("user", "mod" and "admin").  Connectors that
+// read posts from the server (search connectors) see the posts that the suite makes through the server's thread
+// connector.  Each factory call should produce a connector with no data of its own.
+export class ConnectorConformanceSuite {
+    private _harness: webchatty.TestHarness;
+    
+    constructor(harness: webchatty.TestHarness) {
+        this._harness = harness;
+    }
+    
+    // 'factory' receives the accounts that the new connector must contain.
+    public async testAccountConnector(name: string,
+            factory: (accounts: webchatty.MemoryUserAccount[]) => webchatty.IAccountConnector): Promise<void> {
+        const mod = new webchatty.UserCredentials("mod", "pass", webchatty.UserAccessLevel.Moderator);
+        const registrationDate = new Date("2014-02-03T11:15:00Z");
+        const connector = factory([
+            { username: "Alice", password: "pass", level: webchatty.UserAccessLevel.User, 
+                registrationDate: registrationDate },
+            { username: "bob", password: "pass", level: webchatty.UserAccessLevel.Moderator, 
+                registrationDate: new Date("2015-01-01T00:00:00Z") }
+        ]);
+        
+        await this.testAsync(name, "start", async () => {
+            connector.injectServer(this._harness.server);
+            await connector.start();
+        });
+        
+        await this.testAsync(name, "tryLogin resolves credentials", async () => {
+            const credentials = await connector.tryLogin("Alice", "pass");
+            should.strictEqual(credentials.username.toLowerCase(), "alice");
+            should.strictEqual(credentials.level, webchatty.UserAccessLevel.User);
+            should.strictEqual((await connector.tryLogin("bob", "pass")).level, webchatty.UserAccessLevel.Moderator);
+        });
+        
+        await this.testAsync(name, "tryLogin resolves null for a wrong password or username", async () => {
+            should.strictEqual(await connector.tryLogin("Alice", "wrong"), null);
+            should.strictEqual(await connector.tryLogin("nobody", "pass"), null);
+        });
+        
+        await this.testAsync(name, "userExists is case insensitive", async () => {
+            should.strictEqual(await connector.userExists("alice"), true);
+            should.strictEqual(await connector.userExists("BOB"), true);
+            should.strictEqual(await connector.userExists("nobody"), false);
+        });
+        
+        await this.testAsync(name, "getUserRegistrationDates omits nonexistent users", async () => {
+            const dates = await connector.getUserRegistrationDates(["Alice", "nobody"]);
+            should.deepEqual(dates.keys(), ["Alice"]);
+            should.strictEqual(dates.get("Alice").getTime(), registrationDate.getTime());
+            should.strictEqual((await connector.getUserRegistrationDates()).count(), 2);
+        });
+        
+        await this.testAsync(name, "createAccount adds an account", async () => {
+            await connector.createAccount("Carol", "secret", webchatty.UserAccessLevel.User, registrationDate);
+            should.strictEqual((await connector.tryLogin("Carol", "secret")).level, webchatty.UserAccessLevel.User);
+            should.strictEqual(await connector.userExists("carol"), true);
+        });
+        
+        await this.testAsync(name, "createAccount rejects a duplicate username with ERR_ARGUMENT", async () => {
+            await this.expectRejection(
+                connector.createAccount("ALICE", "other", webchatty.UserAccessLevel.User, registrationDate), 
+                "ERR_ARGUMENT");
+            should.strictEqual(await connector.tryLogin("Alice", "other"), null);
+        });
+        
+        await this.testAsync(name, "banUser sends BanChange", async () => {
+            const lastEventId = this._harness.server.dispatcher.getNewestEventId();
+            const ban = await connector.banUser(mod, "Alice", "reason", null);
+            should.strictEqual(ban.moderator, "mod");
+            should.strictEqual(ban.expirationDate, null);
+            const events = await this.getEventsSince(lastEventId);
+            should.deepEqual(events.map(x => x.eventType), [webchatty.EventType.BanChange]);
+            should.strictEqual((<webchatty.BanChangeEventData>events[0].eventData).isBanned, true);
+        });
+        
+        await this.testAsync(name, "getActiveBan and getActiveBans skip expired bans", async () => {
+            await connector.banUser(mod, "bob", "expired", new Date(this._harness.server.clock.now().getTime() - 1000));
+            should.strictEqual((await connector.getActiveBan("alice")).reason, "reason");
+            should.strictEqual(await connector.getActiveBan("bob"), null);
+            should.strictEqual(await connector.getActiveBan("nobody"), null);
+            should.deepEqual((await connector.getActiveBans()).map(x => x.username.toLowerCase()), ["alice"]);
+        });
+        
+        await this.testAsync(name, "unbanUser sends BanChange only if the user was banned", async () => {
+            const lastEventId = this._harness.server.dispatcher.getNewestEventId();
+            await connector.unbanUser(mod, "Alice");
+            await connector.unbanUser(mod, "Alice");
+            should.strictEqual(await connector.getActiveBan("alice"), null);
+            const events = await this.getEventsSince(lastEventId);
+            should.deepEqual(events.map(x => x.eventType), [webchatty.EventType.BanChange]);
+            should.strictEqual((<webchatty.BanChangeEventData>events[0].eventData).isBanned, false);
+        });
+    }
+    
+    public async testClientDataConnector(name: string, factory: () => webchatty.IClientDataConnector): Promise<void> {
+        const connector = factory();
+        
+        await this.testAsync(name, "start", async () => {
+            connector.injectServer(this._harness.server);
+            await connector.start();
+        });
+        
+        await this.testAsync(name, "moderation flag filters", async () => {
+            should.ok((await connector.getModerationFlagFilters("user")).length > 0);
+            should.strictEqual(await connector.setModerationFlagFilters("user", [webchatty.ModerationFlag.Stupid]), 
+                true);
+            should.deepEqual(await connector.getModerationFlagFilters("user"), [webchatty.ModerationFlag.Stupid]);
+        });
+        
+        await this.testAsync(name, "marked posts", async () => {
+            should.strictEqual((await connector.getMarkedPosts("user")).count(), 0);
+            should.strictEqual(await connector.setMarkedPost("user", 1, webchatty.MarkedPostType.Pinned), true);
+            should.strictEqual(await connector.setMarkedPost("user", 2, webchatty.MarkedPostType.Pinned), true);
+            should.strictEqual(await connector.setMarkedPost("user", 2, webchatty.MarkedPostType.Collapsed), true);
+            const markedPosts = await connector.getMarkedPosts("user");
+            should.deepEqual(markedPosts.keys().sort(), [1, 2]);
+            should.strictEqual(markedPosts.get(2), webchatty.MarkedPostType.Collapsed);
+            should.strictEqual((await connector.getMarkedPosts("mod")).count(), 0);
+            should.strictEqual(await connector.clearMarkedPosts("user"), true);
+            should.strictEqual((await connector.getMarkedPosts("user")).count(), 0);
+        });
+        
+        await this.testAsync(name, "client data is empty until it is set", async () => {
+            should.strictEqual(await connector.getClientData("user", "conformance"), "");
+        });
+        
+        await this.testAsync(name, "client data accepts 100,000 bytes", async () => {
+            const data = new Array(100001).join("x");
+            should.strictEqual(await connector.setClientData("user", "conformance", data), true);
+            should.strictEqual(await connector.getClientData("user", "conformance"), data);
+        });
+        
+        await this.testAsync(name, "nonexistent user rejects with ERR_ARGUMENT", async () => {
+            await this.expectRejection(connector.getModerationFlagFilters("nobody"), "ERR_ARGUMENT");
+            await this.expectRejection(connector.getMarkedPosts("nobody"), "ERR_ARGUMENT");
+            await this.expectRejection(connector.getClientData("nobody", "conformance"), "ERR_ARGUMENT");
+            await this.expectRejection(connector.setClientData("nobody", "conformance", "abc"), "ERR_ARGUMENT");
+        });
+        
+        await this.testAsync(name, "client data is separate per client and user", async () => {
+            await connector.setClientData("user", "other", "abc");
+            should.strictEqual(await connector.getClientData("user", "other"), "abc");
+            should.strictEqual((await connector.getClientData("user", "conformance")).length, 100000);
+            should.strictEqual(await connector.getClientData("mod", "other"), "");
+        });
+    }
+    
+    public async testMessageConnector(name: string, factory: () => webchatty.IMessageConnector): Promise<void> {
+        const user = new webchatty.UserCredentials("user", "pass", webchatty.UserAccessLevel.User);
+        const mod = new webchatty.UserCredentials("mod", "pass", webchatty.UserAccessLevel.Moderator);
+        const connector = factory();
+        var messageIds: number[];
+        
+        await this.testAsync(name, "start", async () => {
+            connector.injectServer(this._harness.server);
+            await connector.start();
+        });
+        
+        await this.testAsync(name, "sent messages appear in both mailboxes", async () => {
+            await connector.sendMessage(user, "mod", "first", "one");
+            await connector.sendMessage(user, "mod", "second", "two");
+            const inbox = await connector.getMessages(mod, webchatty.Mailbox.Inbox, 0, 50);
+            should.deepEqual(inbox.map(x => x.subject).sort(), ["first", "second"]);
+            inbox.forEach(x => {
+                should.strictEqual(x.from, "user");
+                should.strictEqual(x.to, "mod");
+                should.strictEqual(x.unread, true);
+            });
+            const sent = await connector.getMessages(user, webchatty.Mailbox.Sent, 0, 50);
+            should.deepEqual(sent.map(x => x.subject).sort(), ["first", "second"]);
+            should.strictEqual((await connector.getMessages(user, webchatty.Mailbox.Inbox, 0, 50)).length, 0);
+            messageIds = lodash.sortBy(inbox, x => x.subject).map(x => x.id);
+        });
+        
+        await this.testAsync(name, "getMessages may return fewer than 'take'", async () => {
+            should.strictEqual((await connector.getMessages(mod, webchatty.Mailbox.Inbox, 0, 1)).length, 1);
+            should.strictEqual((await connector.getMessages(mod, webchatty.Mailbox.Inbox, 1, 50)).length, 1);
+            should.strictEqual((await connector.getMessages(mod, webchatty.Mailbox.Inbox, 2, 50)).length, 0);
+        });
+        
+        await this.testAsync(name, "markMessageRead", async () => {
+            await connector.markMessageRead(mod, messageIds[0]);
+            should.deepEqual(await connector.getMessageCount(mod, webchatty.Mailbox.Inbox), { total: 2, unread: 1 });
+            should.strictEqual((await connector.getMessageCount(user, webchatty.Mailbox.Sent)).total, 2);
+        });
+        
+        await this.testAsync(name, "deleteMessage removes the message from one mailbox", async () => {
+            await connector.deleteMessage(mod, messageIds[1], webchatty.Mailbox.Inbox);
+            should.deepEqual((await connector.getMessages(mod, webchatty.Mailbox.Inbox, 0, 50)).map(x => x.id), 
+                [messageIds[0]]);
+            should.strictEqual((await connector.getMessages(user, webchatty.Mailbox.Sent, 0, 50)).length, 2);
+        });
+        
+        await this.testAsync(name, "invalid message IDs are ignored or rejected with ERR_INVALID_MESSAGE", async () => {
+            await this.expectIgnoredOrRejected(connector.markMessageRead(mod, 999), "ERR_INVALID_MESSAGE");
+            await this.expectIgnoredOrRejected(connector.deleteMessage(mod, 999, webchatty.Mailbox.Inbox), 
+                "ERR_INVALID_MESSAGE");
+            await this.expectIgnoredOrRejected(connector.deleteMessage(user, messageIds[0], webchatty.Mailbox.Inbox), 
+                "ERR_INVALID_MESSAGE");
+            should.strictEqual((await connector.getMessages(mod, webchatty.Mailbox.Inbox, 0, 50)).length, 1);
+        });
+    }
+    
+    public async testThreadConnector(name: string, factory: () => webchatty.IThreadConnector): Promise<void> {
+        const user = new webchatty.UserCredentials("user", "pass", webchatty.UserAccessLevel.User);
+        const mod = new webchatty.UserCredentials("mod", "pass", webchatty.UserAccessLevel.Moderator);
+        const connector = factory();
+        const ids: number[] = []; // [root, reply, second root, reply to reply]
+        
+        await this.testAsync(name, "start", async () => {
+            connector.injectServer(this._harness.server);
+            await connector.start();
+            should.strictEqual(await connector.getNewestPostId(), 0);
+        });
+        
+        await this.testAsync(name, "postComment sends NewPost with an HTML body", async () => {
+            const lastEventId = this._harness.server.dispatcher.getNewestEventId();
+            ids.push(await connector.postComment(user, 0, "root b[bold]b"));
+            ids.push(await connector.postComment(mod, ids[0], "reply"));
+            ids.push(await connector.postComment(user, 0, "second root"));
+            ids.push(await connector.postComment(user, ids[1], "reply to reply"));
+            should.strictEqual(lodash.uniq(ids).length, 4);
+            should.strictEqual(await connector.getNewestPostId(), lodash.max(ids));
+            
+            const events = await this.getEventsSince(lastEventId);
+            should.deepEqual(events.map(x => x.eventType), lodash.times(4, () => webchatty.EventType.NewPost));
+            const data = events.map(x => <webchatty.NewPostEventData>x.eventData);
+            should.deepEqual(data.map(x => x.postId), ids);
+            should.deepEqual(data.map(x => x.parentAuthor), ["", "user", "", "mod"]);
+            should.ok(data[0].post.body.indexOf("<b>bold</b>") >= 0);
+        });
+        
+        await this.testAsync(name, "postComment rejects with ERR_INVALID_PARENT", async () => {
+            await this.expectRejection(connector.postComment(user, lodash.max(ids) + 100, "orphan"), 
+                "ERR_INVALID_PARENT");
+        });
+        
+        await this.testAsync(name, "getThreads returns each thread once", async () => {
+            const posts = await connector.getThreads([ids[1], ids[0], ids[3], ids[1]]);
+            should.deepEqual(posts.map(x => x.id).sort(), [ids[0], ids[1], ids[3]].sort());
+            const reply = posts.filter(x => x.id === ids[3])[0];
+            should.strictEqual(reply.threadId, ids[0]);
+            should.strictEqual(reply.parentId, ids[1]);
+            should.strictEqual(reply.author, "user");
+            should.strictEqual(reply.category, webchatty.ModerationFlag.OnTopic);
+        });
+        
+        await this.testAsync(name, "getThreads omits nonexistent posts", async () => {
+            const posts = await connector.getThreads([ids[2], lodash.max(ids) + 100]);
+            should.deepEqual(posts.map(x => x.id), [ids[2]]);
+            should.strictEqual((await connector.getThreads([])).length, 0);
+        });
+        
+        await this.testAsync(name, "getActiveThreadIds starts with the most recently bumped", async () => {
+            should.deepEqual(await connector.getActiveThreadIds(10, 18), [ids[0], ids[2]]);
+            should.deepEqual(await connector.getActiveThreadIds(1, 18), [ids[0]]);
+        });
+        
+        await this.testAsync(name, "setPostCategory sends CategoryChange", async () => {
+            const lastEventId = this._harness.server.dispatcher.getNewestEventId();
+            await connector.setPostCategory(mod, ids[1], webchatty.ModerationFlag.Nuked);
+            const events = await this.getEventsSince(lastEventId);
+            should.deepEqual(events.map(x => x.eventType), [webchatty.EventType.CategoryChange]);
+            should.strictEqual((<webchatty.CategoryChangeEventData>events[0].eventData).postId, ids[1]);
+        });
+        
+        await this.testAsync(name, "setPostCategory rejects with ERR_INVALID_POST", async () => {
+            await this.expectRejection(
+                connector.setPostCategory(mod, lodash.max(ids) + 100, webchatty.ModerationFlag.Nuked), 
+                "ERR_INVALID_POST");
+        });
+        
+        await this.testAsync(name, "getThreads includes nuked posts", async () => {
+            const posts = await connector.getThreads([ids[0]]);
+            should.strictEqual(posts.filter(x => x.id === ids[1])[0].category, webchatty.ModerationFlag.Nuked);
+        });
+        
+        await this.testAsync(name, "getPostRange includes nuked posts", async () => {
+            const forward = await connector.getPostRange(ids[0], 4, false);
+            should.deepEqual(forward.map(x => x.id), ids);
+            should.strictEqual(forward[1].category, webchatty.ModerationFlag.Nuked);
+            const reverse = await connector.getPostRange(ids[2], 2, true);
+            should.deepEqual(reverse.map(x => x.id), [ids[2], ids[1]]);
+        });
+    }
+    
+    // The search connector reads posts from the harness server's thread connector, which should start out empty.
+    public async testSearchConnector(name: string, factory: () => webchatty.ISearchConnector): Promise<void> {
+        const user = new webchatty.UserCredentials("user", "pass", webchatty.UserAccessLevel.User);
+        const mod = new webchatty.UserCredentials("mod", "pass", webchatty.UserAccessLevel.Moderator);
+        const threads = this._harness.server.threadConnector;
+        const connector = factory();
+        const ids: number[] = [];
+        const search = (params: any) => connector.search(<webchatty.SearchParameters>lodash.assign({ 
+            terms: null, author: null, parentAuthor: null, category: null, threadId: null, after: null, before: null, 
+            offset: 0, limit: 50, oldestFirst: false, sort: webchatty.SearchSort.Date }, params));
+        
+        await this.testAsync(name, "start indexes existing posts", async () => {
+            ids.push(await threads.postComment(user, 0, "conformance aardvark"));
+            ids.push(await threads.postComment(mod, ids[0], "conformance reply"));
+            ids.push(await threads.postComment(user, 0, "nuked aardvark"));
+            await threads.setPostCategory(mod, ids[2], webchatty.ModerationFlag.Nuked);
+            
+            connector.injectServer(this._harness.server);
+            await connector.start();
+            const status = await connector.getIndexStatus();
+            should.strictEqual(status.isRebuilding, false);
+        });
+        
+        await this.testAsync(name, "search never includes nuked posts", async () => {
+            const results = await search({ terms: webchatty.parseSearchQuery("aardvark") });
+            should.deepEqual(results.posts.map(x => x.id), [ids[0]]);
+            should.strictEqual(results.totalCount, 1);
+        });
+        
+        await this.testAsync(name, "search filters", async () => {
+            should.deepEqual((await search({ author: "mod" })).posts.map(x => x.id), [ids[1]]);
+            should.deepEqual((await search({ parentAuthor: "user" })).posts.map(x => x.id), [ids[1]]);
+            should.deepEqual((await search({ threadId: ids[0] })).posts.map(x => x.id), [ids[1], ids[0]]);
+        });
+        
+        await this.testAsync(name, "search pages and counts", async () => {
+            const page = await search({ terms: webchatty.parseSearchQuery("conformance"), offset: 1, limit: 1 });
+            should.deepEqual(page.posts.map(x => x.id), [ids[0]]);
+            should.strictEqual(page.totalCount, 2);
+            const oldestFirst = await search({ terms: webchatty.parseSearchQuery("conformance"), oldestFirst: true });
+            should.deepEqual(oldestFirst.posts.map(x => x.id), [ids[0], ids[1]]);
+        });
+        
+        await this.testAsync(name, "rebuildIndex picks up new posts", async () => {
+            ids.push(await threads.postComment(user, 0, "conformance zebra"));
+            await connector.rebuildIndex();
+            const results = await search({ terms: webchatty.parseSearchQuery("zebra") });
+            should.deepEqual(results.posts.map(x => x.id), [ids[3]]);
+            should.strictEqual((await connector.getIndexStatus()).isRebuilding, false);
+        });
+        
+        await this.testAsync(name, "stop", async () => {
+            await connector.stop();
+        });
+    }
+    
+    public async testStoryConnector(name: string, factory: () => webchatty.IStoryConnector): Promise<void> {
+        const admin = new webchatty.UserCredentials("admin", "pass", webchatty.UserAccessLevel.Administrator);
+        const connector = factory();
+        
+        await this.testAsync(name, "start", async () => {
+            connector.injectServer(this._harness.server);
+            await connector.start();
+            should.deepEqual(await connector.getStories(0, 10), []);
+        });
+        
+        await this.testAsync(name, "addStory and getStory", async () => {
+            const id = await connector.addStory(admin, "Headline", "Summary", "<p>Body</p>", "http://example.com", 5);
+            const story = await connector.getStory(id);
+            should.strictEqual(story.id, id);
+            should.strictEqual(story.title, "Headline");
+            should.strictEqual(story.preview, "Summary");
+            should.strictEqual(story.body, "<p>Body</p>");
+            should.strictEqual(story.url, "http://example.com");
+            should.strictEqual(story.date.getTime(), this._harness.clock.now().getTime());
+            should.strictEqual(story.threadId, 5);
+        });
+        
+        await this.testAsync(name, "getStories is newest first and pages", async () => {
+            await connector.addStory(admin, "Second", "Summary", "Body", "", 6);
+            await connector.addStory(admin, "Third", "Summary", "Body", "", 7);
+            should.deepEqual((await connector.getStories(0, 10)).map(x => x.title), ["Third", "Second", "Headline"]);
+            should.deepEqual((await connector.getStories(1, 1)).map(x => x.title), ["Second"]);
+        });
+        
+        await this.testAsync(name, "editStory keeps the date and thread", async () => {
+            const id = (await connector.getStories(2, 1))[0].id;
+            await connector.editStory(admin, id, "New headline", "New summary", "New body", "");
+            const story = await connector.getStory(id);
+            should.strictEqual(story.title, "New headline");
+            should.strictEqual(story.preview, "New summary");
+            should.strictEqual(story.body, "New body");
+            should.strictEqual(story.url, "");
+            should.strictEqual(story.threadId, 5);
+        });
+        
+        await this.testAsync(name, "nonexistent story rejects with ERR_INVALID_STORY", async () => {
+            await this.expectRejection(connector.getStory(999), "ERR_INVALID_STORY");
+            await this.expectRejection(connector.editStory(admin, 999, "Title", "Preview", "Body", ""), 
+                "ERR_INVALID_STORY");
+        });
+    }
+    
+    private testAsync(connectorName: string, testName: string, test: () => Promise<void>): Promise<void> {
+        return this._harness.testAsync(connectorName + " - " + testName, test);
+    }
+    
+    // Resolves the events sent after 'lastEventId', once the dispatcher has published them.
+    private async getEventsSince(lastEventId: number): Promise<webchatty.Event[]> {
+        const dispatcher = this._harness.server.dispatcher;
+        const count = dispatcher.getNewestEventId() - lastEventId; // including the ones that are still queued
+        var events = dispatcher.pollForEvent(lastEventId);
+        while (events.length < count) {
+            await dispatcher.waitForEvent(lastEventId + events.length);
+            events = dispatcher.pollForEvent(lastEventId);
+        }
+        return events;
+    }
+    
+    private async expectRejection(promise: Promise<any>, code: string): Promise<void> {
+        try {
+            await promise;
+        } catch (ex) {
+            should.strictEqual((<Error>ex).name, code);
+            return;
+        }
+        should.fail("resolved", "rejected with " + code);
+    }
+    
+    // for the contracts that let the connector choose between silently ignoring a bad argument or rejecting
+    private async expectIgnoredOrRejected(promise: Promise<any>, code: string): Promise<void> {
+        try {
+            await promise;
+        } catch (ex) {
+            should.strictEqual((<Error>ex).name, code);
+        }
+    }
+}
@@ -17,79 +17,234 @@
 /// <reference path="../../typings/tsd.d.ts" />
 "use strict";
 
+import * as lodash from "lodash";
 import * as webchatty from "./webchatty";
 import * as supertest from "supertest";
 import * as should from "should";
+import { Dictionary } from "./collections/index";
 
-export class TestHarness {
+// A post to create before the group's tests run, along with its replies.  Give it a name to look up its ID later
+// with TestHarness.postId().
+export interface TestFixturePost {
+    name?: string;
+    author: string;
+    body: string;
+    category?: webchatty.ModerationFlag; // defaults to on-topic.  use Nuked to nuke the post.
+    replies?: TestFixturePost[];
+}
+
+export interface TestFixtureMessage {
+    from: string;
+    to: string;
+    subject: string;
+    body: string;
+    read?: boolean; // defaults to false
+}
+
+// The starting data and server options for a test group.  A test file declares it by setting 'fixture' on its
+// exports.  The users "user", "mod" and "admin" (all with the password "pass") always exist.
+export interface TestFixture {
+    allowUnauthenticatedClientDataReads?: boolean; // defaults to false
+    users?: webchatty.MemoryUserAccount[];
+    threads?: TestFixturePost[]; // posted in order, each thread's replies depth first
+    messages?: TestFixtureMessage[];
+    rateLimits?: webchatty.RateLimitConfiguration; // defaults to 1000 reads, 200 writes, 10 posts, 10 messages
+}
+
+export class TestResults {
     public numPasses = 0;
     public numFails = 0;
-    public server: webchatty.Server;
-    public group: string = "";
+}
+
+const DEFAULT_USERS: webchatty.MemoryUserAccount[] = [
+    {
+        username: "user",
+        password: "pass",
+        level: webchatty.UserAccessLevel.User,
+        registrationDate: new Date("2014-02-03T11:15:00Z") 
+    },
+    {
+        username: "mod",
+        password: "pass",
+        level: webchatty.UserAccessLevel.Moderator,
+        registrationDate: new Date("2014-01-02T23:00:00Z") 
+    },
+    {
+        username: "admin",
+        password: "pass",
+        level: webchatty.UserAccessLevel.Administrator,
+        registrationDate: new Date("2004-01-01T15:30:11Z") 
+    }
+];
+
+// A clock that stands still until a test moves it, so that expiration logic can be tested without waiting.  It starts
+// at the real time when it was created.
+export class FakeClock implements webchatty.IClock {
+    private _nowMsec = new Date().getTime();
+    
+    public now(): Date {
+        return new Date(this._nowMsec);
+    }
+    
+    public set(date: Date): void {
+        this._nowMsec = date.getTime();
+    }
+    
+    public advance(msec: number): void {
+        this._nowMsec += msec;
+    }
+}
+
+// Each test group gets its own harness and its own server, listening on a free port, so groups can run side by side.
+export class TestHarness {
+    public server: webchatty.Server = null;
+    public clock: FakeClock = null; // the server's clock
+    public group: string;
+    private _results: TestResults;
+    private _users: webchatty.MemoryUserAccount[] = DEFAULT_USERS;
+    private _postIds = new Dictionary<string, number>(); // fixture post name -> id
+
+    constructor(group: string, results: TestResults) {
+        this.group = group;
+        this._results = results;
+    }
 
-    public newServer(test: boolean): webchatty.Server {
-        const server = new webchatty.Server({
-            httpPort: 8080,
-            logFilePath: "./webchatty.log",
+    // Starts a new server with in-memory connectors and loads the fixture into it.
+    public async startServer(fixture?: TestFixture): Promise<void> {
+        fixture = fixture || {};
+        this._users = DEFAULT_USERS.concat(fixture.users || []);
+        this.clock = new FakeClock();
+        this.server = new webchatty.Server({
+            httpPort: 0,
+            logFilePath: null,
             logMaxFileSize: 5000000,
             logMaxFiles: 5,
             logUseJsonFormat: false,
-            logConsoleLevel: test ? webchatty.LogLevel.Test : webchatty.LogLevel.Debug,
-            logFileLevel: test ? webchatty.LogLevel.Test : webchatty.LogLevel.Request,
-            accountConnector: new webchatty.MemoryAccountConnector([
-                {
-                    username: "user",
-                    password: "pass",
-                    level: webchatty.UserAccessLevel.User,
-                    registrationDate: new Date("2014-02-03T11:15:00Z") 
-                },
-                {
-                    username: "mod",
-                    password: "pass",
-                    level: webchatty.UserAccessLevel.Moderator,
-                    registrationDate: new Date("2014-01-02T23:00:00Z") 
-                },
-                {
-                    username: "admin",
-                    password: "pass",
-                    level: webchatty.UserAccessLevel.Administrator,
-                    registrationDate: new Date("2004-01-01T15:30:11Z") 
-                },
-            ]),
+            logConsoleLevel: webchatty.LogLevel.Test,
+            logFileLevel: webchatty.LogLevel.Test,
+            allowUnauthenticatedClientDataReads: fixture.allowUnauthenticatedClientDataReads === true,
+            eventJournalFilePath: null,
+            rateLimits: fixture.rateLimits || {
+                read: { maxRequests: 1000, windowSeconds: 60 },
+                write: { maxRequests: 200, windowSeconds: 60 },
+                post: { maxRequests: 10, windowSeconds: 60 },
+                message: { maxRequests: 10, windowSeconds: 60 }
+            },
+            trustProxy: "loopback",
+            clock: this.clock,
+            accountConnector: new webchatty.MemoryAccountConnector(this._users),
             clientDataConnector: new webchatty.MemoryClientDataConnector(),
+            lolConnector: new webchatty.MemoryLolConnector(),
             messageConnector: new webchatty.MemoryMessageConnector(),
+            notificationConnector: new webchatty.MemoryNotificationConnector(),
             threadConnector: new webchatty.MemoryThreadConnnector(),
             searchConnector: new webchatty.MemorySearchConnector({
                 maxPosts: 51000,
-                prunePosts: 50000
-            })
+                prunePosts: 50000,
+                snapshotFilePath: null,
+                snapshotIntervalMinutes: 10
+            }),
+            storyConnector: new webchatty.MemoryStoryConnector()
         });
-        server.run();
-        return server;
+        await this.server.run();
+        
+        // the fixture goes straight to the connectors so that it doesn't count against the rate limits
+        const threads = fixture.threads || [];
+        for (var i = 0; i < threads.length; i++) {
+            await this.addFixturePost(threads[i], 0);
+        }
+        const messages = fixture.messages || [];
+        for (var i = 0; i < messages.length; i++) {
+            const message = messages[i];
+            await this.server.messageConnector.sendMessage(this.getCredentials(message.from), message.to, 
+                message.subject, message.body);
+            if (message.read) {
+                const recipient = this.getCredentials(message.to);
+                const inbox = await this.server.messageConnector.getMessages(recipient, webchatty.Mailbox.Inbox, 0, 
+                    1000);
+                await this.server.messageConnector.markMessageRead(recipient, lodash.max(inbox, x => x.id).id);
+            }
+        }
+    }
+    
+    public async stopServer(): Promise<void> {
+        await this.server.stop();
+    }
+    
+    // The ID of the fixture post with this name.
+    public postId(name: string): number {
+        return this._postIds.get(name);
+    }
+    
+    public request(): supertest.SuperTest {
+        return supertest(this.server.app);
+    }
+    
+    // A form POST with the user's username and password added to 'fields'.
+    public postAs(username: string, path: string, fields: any): supertest.Test {
+        const account = lodash.find(this._users, x => x.username === username);
+        return this.request()
+            .post(path)
+            .type("form")
+            .send(lodash.assign({ username: account.username, password: account.password }, fields));
     }
 
     public test(name: string, test: supertest.Test): Promise<void> {
         return new Promise<void>((resolve, reject) => { 
             test.end((err, res) => {
-                if (err === null) {
-                    this.server.log("test", "Passed: " + this.group + " - " + name);
-                    this.numPasses++;
-                } else {
-                    this.server.log("test", "FAILED: " + this.group + " - " + name);
-                    console.log(err);
-                    this.numFails++;
-                }
+                this.recordResult(name, err);
                 resolve();            
             });
         });
     }
     
+    // For tests that don't fit in a single supertest request.  The test fails if the promise rejects.
+    public async testAsync(name: string, test: () => Promise<void>): Promise<void> {
+        try {
+            await test();
+            this.recordResult(name, null);
+        } catch (ex) {
+            this.recordResult(name, ex);
+        }
+    }
+    
+    private recordResult(name: string, err: any): void {
+        if (err === null) {
+            this.server.log("test", "Passed: " + this.group + " - " + name);
+            this._results.numPasses++;
+        } else {
+            this.server.log("test", "FAILED: " + this.group + " - " + name);
+            console.log(err);
+            this._results.numFails++;
+        }
+    }
+    
     public isError(code: string): (res: supertest.Response) => any {
-        const expectedStatus = code === "ERR_SERVER" ? 500 : 400;
+        const expectedStatus = code === "ERR_SERVER" ? 500 : code === "ERR_RATE_LIMIT" ? 429 : 400;
         return res => {
             should.strictEqual(res.status, expectedStatus);
             should.strictEqual(res.body.error, true);
             should.strictEqual(res.body.code, code);
         };
     }
+    
+    private async addFixturePost(post: TestFixturePost, parentId: number): Promise<void> {
+        const id = await this.server.threadConnector.postComment(this.getCredentials(post.author), parentId, 
+            post.body);
+        if (typeof post.name !== "undefined") {
+            this._postIds.set(post.name, id);
+        }
+        if (typeof post.category !== "undefined" && post.category !== webchatty.ModerationFlag.OnTopic) {
+            await this.server.threadConnector.setPostCategory(this.getCredentials("mod"), id, post.category);
+        }
+        const replies = post.replies || [];
+        for (var i = 0; i < replies.length; i++) {
+            await this.addFixturePost(replies[i], id);
+        }
+    }
+    
+    private getCredentials(username: string): webchatty.UserCredentials {
+        const account = lodash.find(this._users, x => x.username === username);
+        return new webchatty.UserCredentials(account.username, account.password, account.level);
+    }
 }
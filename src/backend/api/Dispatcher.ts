@@ -20,9 +20,11 @@
 import * as lodash from "lodash";
 import * as api from "./index";
 import * as spec from "../spec/index";
+import { Dictionary } from "../collections/index";
 
 const MAX_EVENTS = 11000;
 const PRUNE_EVENTS = 10000;
+const LOL_UPDATE_INTERVAL_MSEC = 5000;
 
 interface IEventWaiter {
     expirationMsec: number;
@@ -31,40 +33,74 @@ interface IEventWaiter {
 
 export class Dispatcher {
     private _server: api.Server;
+    private _journalFilePath: string;
+    private _journal: api.EventJournal = null;
+    private _epoch: string = null;
     private _nextId: number = 1;
     private _events: spec.Event[] = []; 
     private _eventWaiters: IEventWaiter[] = [];
     private _sendQueue: spec.Event[] = [];
     private _wakeMessageLoop: () => void = () => {}; // call this when pushing onto sendQueue
     private _shuttingDown: boolean = false;
+    private _pendingLolCounts = new Dictionary<{postId: number, tag: string}, number>(); // {post id, tag} -> count
+    private _lolTimer: NodeJS.Timer = null;
     
     public newEventSignal: spec.Signal<spec.Event> = new spec.Signal<spec.Event>();
     
+    // 'journalFilePath' is null to keep events in memory only, in which case the event IDs start over (under a new
+    // epoch) every time the server restarts.
+    constructor(journalFilePath: string) {
+        this._journalFilePath = journalFilePath;
+    }
+    
     public injectServer(server: api.Server): void {
         this._server = server;
+        if (this._journalFilePath !== null) {
+            this._journal = new api.EventJournal(server, this._journalFilePath);
+        }
         
-        // every 2.5 seconds, prune the list of event waiters according to their expiration time
-        // a pruned event waiter will receive an empty list of events and a friendly invitation
-        // to try again
-        setInterval(() => {
-            const now = new Date().getTime();
-            this._eventWaiters.forEach(waiter => {
-                if (waiter.expirationMsec <= now) {
-                    waiter.resolve([]);
-                    waiter.resolve = null;
-                }
-            });
-            this._eventWaiters = lodash.filter(this._eventWaiters, x => x.resolve !== null);
-        }, 2500).unref();
+        setInterval(() => this.expireEventWaiters(), 2500).unref();
     }
     
-    public start(): void {
+    // Prunes the list of event waiters according to their expiration time.  A pruned event waiter will receive an
+    // empty list of events and a friendly invitation to try again.  This happens every 2.5 seconds on its own.
+    public expireEventWaiters(): void {
+        const now = this._server.clock.now().getTime();
+        this._eventWaiters.forEach(waiter => {
+            if (waiter.expirationMsec <= now) {
+                waiter.resolve([]);
+                waiter.resolve = null;
+            }
+        });
+        this._eventWaiters = lodash.filter(this._eventWaiters, x => x.resolve !== null);
+    }
+    
+    public async start(): Promise<void> {
+        if (this._journal === null) {
+            this._epoch = api.newEpoch();
+        } else {
+            this._events = await this._journal.load();
+            this._epoch = this._journal.epoch;
+            if (this._events.length > MAX_EVENTS) {
+                this._events = lodash.slice(this._events, this._events.length - PRUNE_EVENTS);
+                await this._journal.rewrite(this._events);
+            }
+            if (this._events.length > 0) {
+                this._nextId = this._events[this._events.length - 1].eventId + 1;
+            }
+        }
+        
         this.startMessageLoop();
+        this._lolTimer = setInterval(() => this.sendPendingLolCounts(), LOL_UPDATE_INTERVAL_MSEC);
     }
     
     public stop(): void {
         this._shuttingDown = true;
         this._wakeMessageLoop();
+        if (this._lolTimer !== null) {
+            clearInterval(this._lolTimer);
+            this._lolTimer = null;
+        }
     }
     
     private startMessageLoop(): void {
@@ -85,12 +121,32 @@ export class Dispatcher {
             eventId: this._nextId++,
             eventType: type,
             eventData: data,
-            eventDate: new Date()
+            eventDate: this._server.clock.now()
         };
         this._sendQueue.push(event);
         this._wakeMessageLoop();
     }
 
+    // Tag counts can change many times a second on a busy post, so rather than sending an event for each change, the
+    // newest count for each post and tag is held here and sent in a single LolCountsUpdate event every 5 seconds.
+    public queueLolCountUpdate(postId: number, tag: string, count: number): void {
+        this._pendingLolCounts.set({ postId: postId, tag: tag }, count);
+    }
+    
+    private sendPendingLolCounts(): void {
+        if (this._pendingLolCounts.count() === 0) {
+            return;
+        }
+        const data = new spec.LolCountsUpdateEventData();
+        data.updates = this._pendingLolCounts.pairs().map(x => ({
+            postId: x.key.postId,
+            tag: x.key.tag,
+            count: x.value
+        }));
+        this._pendingLolCounts.clear();
+        this.sendEvent(spec.EventType.LolCountsUpdate, data);
+    }
+
     private sleep(): Promise<void> {
         var didResolve = false;
         return new Promise<void>((resolve, reject) => {
@@ -119,9 +175,15 @@ export class Dispatcher {
             const event = this._sendQueue.shift();
             this._events.push(event);
             
-            // if we trip the maximum, then delete the oldest events so we're under the prune limit
+            // if we trip the maximum, then delete the oldest events so we're under the prune limit.  the journal is
+            // compacted at the same time so that it holds the same events that we do.
             if (this._events.length > MAX_EVENTS) {
                 this._events = lodash.slice(this._events, this._events.length - PRUNE_EVENTS);
+                if (this._journal !== null) {
+                    await this._journal.rewrite(this._events);
+                }
+            } else if (this._journal !== null) {
+                await this._journal.append(event);
             }
             
             // notify all waiting waitForEvent() callers
@@ -141,6 +203,14 @@ export class Dispatcher {
         }
     }
     
+    // Throws ERR_TOO_MANY_EVENTS if the client's event ID came from a different epoch, which means that the event IDs 
+    // have started over since the client last synced.  'epoch' is null if the client didn't provide one.
+    public verifyEpoch(epoch: string, lastEventId: number): void {
+        if ((epoch !== null && epoch !== this._epoch) || lastEventId > this.getNewestEventId()) {
+            throw spec.apiError("ERR_TOO_MANY_EVENTS", "The server's event history has been reset.");
+        }
+    }
+    
     public pollForEvent(lastEventId: number): spec.Event[] {
         if (this._events.length == 0) {
             return [];
@@ -164,7 +234,7 @@ export class Dispatcher {
         
         return new Promise<spec.Event[]>((resolve, reject) => {
             this._eventWaiters.push({
-                expirationMsec: new Date().getTime() + 20000, // 20 seconds
+                expirationMsec: this._server.clock.now().getTime() + 20000, // 20 seconds
                 resolve: resolve
             });
         });
@@ -173,4 +243,8 @@ export class Dispatcher {
     public getNewestEventId(): number {
         return this._nextId - 1;
     }
+    
+    public getEpoch(): string {
+        return this._epoch;
+    }
 }
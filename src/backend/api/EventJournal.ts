@@ -0,0 +1,116 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as api from "./index";
+import * as spec from "../spec/index";
+
+// An append-only file containing the dispatcher's recent events, so that event IDs carry on where they left off when
+// the server restarts.  The first line is a header containing the epoch and each following line is one JSON event.
+// The epoch is chosen when the journal file is created and changes only if the file is lost, at which point the
+// event IDs start over and clients must resync.
+export class EventJournal {
+    private _server: api.Server;
+    private _filePath: string;
+
+    public epoch: string = null;
+
+    constructor(server: api.Server, filePath: string) {
+        this._server = server;
+        this._filePath = filePath;
+    }
+
+    // Resolves the events stored in the journal, oldest to newest, creating a new journal (with a new epoch) if the
+    // file does not exist.  A torn final line from a crash during an append is skipped.
+    public async load(): Promise<spec.Event[]> {
+        const exists = await new Promise<boolean>(resolve => fs.exists(this._filePath, resolve));
+        if (!exists) {
+            this.epoch = newEpoch();
+            await this.rewrite([]);
+            this._server.log("status", "EventJournal: Created " + this._filePath + " with epoch " + this.epoch + ".");
+            return [];
+        }
+
+        const text = await readFileAsync(this._filePath);
+        const lines = text.split("\n").filter(x => x.length > 0);
+        const events: spec.Event[] = [];
+        lines.forEach((line, i) => {
+            var obj: any;
+            try {
+                obj = JSON.parse(line);
+            } catch (ex) {
+                this._server.log("critical", "EventJournal: Skipping unreadable line " + (i + 1) + ".");
+                return;
+            }
+            if (i === 0) {
+                this.epoch = obj.epoch;
+            } else {
+                obj.eventDate = new Date(obj.eventDate);
+                events.push(<spec.Event>obj);
+            }
+        });
+
+        if (this.epoch === null) {
+            return Promise.reject<spec.Event[]>(new Error("The event journal " + this._filePath + " has no header."));
+        }
+        this._server.log("status", "EventJournal: Loaded " + events.length + " events with epoch " + this.epoch + ".");
+        return events;
+    }
+
+    // Adds a single event to the end of the journal.
+    public append(event: spec.Event): Promise<void> {
+        return appendFileAsync(this._filePath, JSON.stringify(event) + "\n");
+    }
+
+    // Replaces the journal's contents with the header and 'events'.  Used to compact the journal when the dispatcher
+    // prunes old events.  The new file is written alongside and renamed into place so that a crash part way through
+    // doesn't lose the journal.
+    public async rewrite(events: spec.Event[]): Promise<void> {
+        const lines = [JSON.stringify({ epoch: this.epoch })].concat(events.map(x => JSON.stringify(x)));
+        const tempFilePath = this._filePath + ".tmp";
+        await writeFileAsync(tempFilePath, lines.join("\n") + "\n");
+        await new Promise<void>((resolve, reject) => {
+            fs.rename(tempFilePath, this._filePath, err => err ? reject(err) : resolve());
+        });
+    }
+}
+
+// a random 16-character hex string
+export function newEpoch(): string {
+    return crypto.randomBytes(8).toString("hex");
+}
+
+function readFileAsync(filePath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        fs.readFile(filePath, "utf8", (err, data) => err ? reject(err) : resolve(data));
+    });
+}
+
+function writeFileAsync(filePath: string, data: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.writeFile(filePath, data, "utf8", err => err ? reject(err) : resolve());
+    });
+}
+
+function appendFileAsync(filePath: string, data: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.appendFile(filePath, data, "utf8", err => err ? reject(err) : resolve());
+    });
+}
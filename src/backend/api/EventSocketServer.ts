@@ -0,0 +1,145 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as express from "express";
+import * as http from "http";
+import * as url from "url";
+import * as ws from "ws";
+import * as api from "./index";
+import * as spec from "../spec/index";
+
+const PING_INTERVAL_MSEC = 30000;
+
+interface IEventSocket {
+    socket: ws;
+    lastSentEventId: number;
+    isAlive: boolean; // false if we have pinged the client and haven't heard back yet
+}
+
+// Pushes dispatcher events to clients over WebSockets at /v3/eventSocket, as an alternative to long-polling
+// /v2/waitForEvent.  The client passes the same lastEventId and epoch arguments as /v2/waitForEvent, receives any
+// events that it has missed, and then receives each new event as it happens.  Every message is a single [EVENT].
+// If the arguments are invalid, then the client receives a single error message and the socket is closed.  Each
+// connection counts as a read against the client's rate limit, and a client over its budget gets ERR_RATE_LIMIT.
+export class EventSocketServer {
+    private _server: api.Server;
+    private _socketServer: ws.Server = null;
+    private _sockets: IEventSocket[] = [];
+    private _pingTimer: NodeJS.Timer = null;
+
+    public injectServer(server: api.Server): void {
+        this._server = server;
+        server.dispatcher.newEventSignal.addHandler(async (event) => {
+            this._sockets.forEach(x => this.sendEvent(x, event));
+        });
+    }
+
+    // Starts accepting WebSocket connections on the same port as the HTTP API.
+    public start(httpServer: http.Server): void {
+        this._socketServer = new ws.Server({ server: httpServer, path: "/v3/eventSocket" });
+        this._socketServer.on("connection", (socket: ws) => this.onConnection(socket));
+
+        // ping every client periodically so that idle sockets aren't dropped by proxies along the way, and so that we
+        // notice clients that have gone away without closing their socket.
+        this._pingTimer = setInterval(() => {
+            this._sockets.forEach(x => {
+                if (!x.isAlive) {
+                    x.socket.terminate();
+                } else {
+                    x.isAlive = false;
+                    x.socket.ping(null, null, true);
+                }
+            });
+        }, PING_INTERVAL_MSEC);
+        this._pingTimer.unref();
+    }
+
+    public stop(): void {
+        if (this._pingTimer !== null) {
+            clearInterval(this._pingTimer);
+            this._pingTimer = null;
+        }
+        if (this._socketServer !== null) {
+            this._socketServer.close();
+            this._socketServer = null;
+        }
+        this._sockets = [];
+    }
+
+    private onConnection(socket: ws): void {
+        const upgradeReq = <any>socket.upgradeReq;
+        upgradeReq.query = url.parse(upgradeReq.url, true).query;
+
+        var lastEventId: number;
+        var missedEvents: spec.Event[];
+        try {
+            // the upgrade request didn't go through Express, so the server is given the client's identity directly
+            const token = typeof upgradeReq.query.token === "string" ? upgradeReq.query.token : null;
+            const retryAfterSeconds = this._server.countRequestFrom(this._server.getClientAddress(upgradeReq), token,
+                api.RateLimitCategory.Read);
+            if (retryAfterSeconds > 0) {
+                throw api.rateLimitError(retryAfterSeconds);
+            }
+            const query = new api.QueryParser(<express.Request>upgradeReq);
+            lastEventId = query.getOptionalInteger("lastEventId", this._server.dispatcher.getNewestEventId());
+            const epoch = query.getOptionalString("epoch", null);
+            this._server.dispatcher.verifyEpoch(epoch, lastEventId);
+            missedEvents = this._server.dispatcher.pollForEvent(lastEventId);
+        } catch (ex) {
+            const error = <Error>ex;
+            const code = error.name.substr(0, 4) === "ERR_" ? error.name : "ERR_SERVER";
+            socket.send(JSON.stringify({ error: true, code: code, message: error.message }), () => {
+                socket.close();
+            });
+            return;
+        }
+
+        const eventSocket: IEventSocket = {
+            socket: socket,
+            lastSentEventId: lastEventId,
+            isAlive: true
+        };
+        this._sockets.push(eventSocket);
+        socket.on("pong", () => {
+            eventSocket.isAlive = true;
+        });
+        socket.on("close", () => {
+            this._sockets = this._sockets.filter(x => x !== eventSocket);
+        });
+        socket.on("error", (err: Error) => {
+            this._server.log("debug", "EventSocketServer: Socket error: " + err.message);
+        });
+
+        missedEvents.forEach(x => this.sendEvent(eventSocket, x));
+    }
+
+    // an event may be in the dispatcher's history (and thus in the missed events sent at connection time) before the
+    // dispatcher signals it, so events that the client already has are skipped.
+    private sendEvent(eventSocket: IEventSocket, event: spec.Event): void {
+        if (event.eventId <= eventSocket.lastSentEventId || eventSocket.socket.readyState !== ws.OPEN) {
+            return;
+        }
+        eventSocket.lastSentEventId = event.eventId;
+        eventSocket.socket.send(JSON.stringify(event), err => {
+            if (err) {
+                this._server.log("debug", "EventSocketServer: Send failed: " + err.message);
+            }
+        });
+    }
+}
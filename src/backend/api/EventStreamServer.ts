@@ -0,0 +1,128 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as express from "express";
+import * as api from "./index";
+import * as spec from "../spec/index";
+
+const HEARTBEAT_INTERVAL_MSEC = 15000;
+
+// flush() is added to the response by the compression middleware.
+interface IFlushableResponse extends express.Response {
+    flush(): void;
+}
+
+interface IEventStream {
+    res: IFlushableResponse;
+    lastSentEventId: number;
+}
+
+// Streams dispatcher events to browsers as Server-Sent Events at /v3/eventStream.  Each event is sent as a message
+// whose id is the eventId and whose data is the [EVENT] JSON, so the browser's EventSource resumes from the right
+// place on its own (via the Last-Event-ID header) when it reconnects.  If the client's arguments are invalid, then
+// the error is sent as a single "apiError" message and the stream is closed.
+export class EventStreamServer {
+    private _server: api.Server;
+    private _streams: IEventStream[] = [];
+    private _heartbeatTimer: NodeJS.Timer = null;
+
+    public injectServer(server: api.Server): void {
+        this._server = server;
+        server.dispatcher.newEventSignal.addHandler(async (event) => {
+            this._streams.forEach(x => this.sendEvent(x, event));
+        });
+    }
+
+    public start(): void {
+        // a comment line every so often keeps proxies from closing an idle stream.  EventSource ignores it.
+        this._heartbeatTimer = setInterval(() => {
+            this._streams.forEach(x => this.write(x.res, ": heartbeat\n\n"));
+        }, HEARTBEAT_INTERVAL_MSEC);
+        this._heartbeatTimer.unref();
+    }
+
+    public stop(): void {
+        if (this._heartbeatTimer !== null) {
+            clearInterval(this._heartbeatTimer);
+            this._heartbeatTimer = null;
+        }
+        this._streams.forEach(x => x.res.end());
+        this._streams = [];
+    }
+
+    // 'response' must have passed through the compression middleware.
+    public handleRequest(req: express.Request, response: express.Response): void {
+        const res = <IFlushableResponse>response;
+        res.status(200);
+        res.set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "X-Accel-Buffering": "no" // tell nginx not to buffer the stream
+        });
+
+        var lastEventId: number;
+        var missedEvents: spec.Event[];
+        try {
+            // the browser sends Last-Event-ID when it reconnects, which takes precedence over the original URL
+            const query = new api.QueryParser(req);
+            const header = req.get("Last-Event-ID");
+            lastEventId = typeof header === "string" && /^[0-9]+$/.test(header) ? parseInt(header, 10)
+                : query.getOptionalInteger("lastEventId", this._server.dispatcher.getNewestEventId());
+            const epoch = query.getOptionalString("epoch", null);
+            this._server.dispatcher.verifyEpoch(epoch, lastEventId);
+            missedEvents = this._server.dispatcher.pollForEvent(lastEventId);
+        } catch (ex) {
+            const error = <Error>ex;
+            const code = error.name.substr(0, 4) === "ERR_" ? error.name : "ERR_SERVER";
+            this.write(res, "event: apiError\ndata: " + JSON.stringify({ error: true, code: code,
+                message: error.message }) + "\n\n");
+            res.end();
+            return;
+        }
+
+        const stream: IEventStream = {
+            res: res,
+            lastSentEventId: lastEventId
+        };
+        this._streams.push(stream);
+        req.on("close", () => {
+            this._streams = this._streams.filter(x => x !== stream);
+        });
+
+        this.write(res, "retry: 5000\n\n");
+        missedEvents.forEach(x => this.sendEvent(stream, x));
+    }
+
+    // an event may be in the dispatcher's history (and thus in the missed events sent at connection time) before the
+    // dispatcher signals it, so events that the client already has are skipped.
+    private sendEvent(stream: IEventStream, event: spec.Event): void {
+        if (event.eventId <= stream.lastSentEventId) {
+            return;
+        }
+        stream.lastSentEventId = event.eventId;
+        this.write(stream.res, "id: " + event.eventId + "\ndata: " + JSON.stringify(event) + "\n\n");
+    }
+
+    // the compression middleware buffers its output until it has a worthwhile amount, so each write is flushed to
+    // get it to the client immediately.
+    private write(res: IFlushableResponse, text: string): void {
+        res.write(text);
+        res.flush();
+    }
+}
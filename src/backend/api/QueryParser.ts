@@ -105,7 +105,7 @@ export class QueryParser {
                 "Each item in the comma-separated list \"%s\" must be an integer.", name));
         }
         
-        const numbers = lodash.map(list, parseInt);
+        const numbers = lodash.map(list, x => parseInt(x, 10));
         
         if (!numbers.every(x => x >= min)) {
             throw spec.apiError("ERR_ARGUMENT", util.format(
@@ -177,6 +177,13 @@ export class QueryParser {
         return list;
     }
     
+    public getOptionalStringList(name: string, defaultValue: string[], minListCount?: number, maxListCount?: number,
+            minStringLength?: number, maxStringLength?: number): string[] {
+        return this.has(name) 
+            ? this.getStringList(name, minListCount, maxListCount, minStringLength, maxStringLength) 
+            : defaultValue;
+    }
+    
     public getDate(name: string): Date {
         var date = Date.parse(this.getString(name));
         if (isNaN(date)) {
@@ -224,10 +231,36 @@ export class QueryParser {
         }
     }
     
+    public getLolTag(name: string): spec.LolTag {
+        switch (this.getString(name)) {
+            case "lol": return spec.LolTag.Lol;
+            case "inf": return spec.LolTag.Inf;
+            case "unf": return spec.LolTag.Unf;
+            case "tag": return spec.LolTag.Tag;
+            case "wtf": return spec.LolTag.Wtf;
+            case "ugh": return spec.LolTag.Ugh;
+            default: throw spec.apiError("ERR_ARGUMENT", util.format(
+                "The value for parameter \"%s\" must be: lol, inf, unf, tag, wtf, or ugh.", name));
+        }
+    }
+    
     public getOptionalModerationFlag(name: string, defaultValue: spec.ModerationFlag): spec.ModerationFlag {
         return this.has(name) ? this.getModerationFlag(name) : defaultValue;
     }
     
+    public getSearchSort(name: string): spec.SearchSort {
+        switch (this.getString(name)) {
+            case "date": return spec.SearchSort.Date;
+            case "relevance": return spec.SearchSort.Relevance;
+            default: throw spec.apiError("ERR_ARGUMENT", util.format(
+                "The value for parameter \"%s\" must be: date or relevance.", name));
+        }
+    }
+    
+    public getOptionalSearchSort(name: string, defaultValue: spec.SearchSort): spec.SearchSort {
+        return this.has(name) ? this.getSearchSort(name) : defaultValue;
+    }
+    
     private has(name: string): boolean {
         if (this._req.method === "GET") {
             return (name in this._req.query) && (this._req.query[name].toString() !== "");
@@ -0,0 +1,116 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as spec from "../spec/index";
+import { Dictionary } from "../collections/index";
+
+// Each route belongs to one of these budgets.  By default, GET routes are reads and POST routes are writes, but a
+// route can choose a different budget when it calls Server.addRoute().
+export enum RateLimitCategory {
+    Read = <any>"read",
+    Write = <any>"write",
+    Post = <any>"post",
+    Message = <any>"message"
+}
+
+export interface RateLimit {
+    maxRequests: number; // the number of requests allowed in each window
+    windowSeconds: number;
+}
+
+// null for any category means that those requests are not limited.
+export interface RateLimitConfiguration {
+    read: RateLimit;
+    write: RateLimit;
+    post: RateLimit;
+    message: RateLimit;
+}
+
+interface IRateLimitWindow {
+    startMsec: number;
+    count: number;
+}
+
+// Counts requests in fixed windows.  The caller chooses the key that requests are counted by: the client's IP address
+// for anonymous requests, or the username for requests with a session token.
+export class RateLimiter {
+    private _config: RateLimitConfiguration;
+    private _clock: spec.IClock;
+    private _windows = new Dictionary<{category: RateLimitCategory, key: string}, IRateLimitWindow>();
+
+    constructor(config: RateLimitConfiguration, clock: spec.IClock) {
+        this._config = config;
+        this._clock = clock;
+
+        // every minute, forget the windows that have ended so that one-time visitors don't accumulate
+        setInterval(() => {
+            const now = this._clock.now().getTime();
+            this._windows.pairs().forEach(pair => {
+                const limit = this.getLimit(pair.key.category);
+                if (limit === null || pair.value.startMsec + limit.windowSeconds * 1000 <= now) {
+                    this._windows.remove(pair.key);
+                }
+            });
+        }, 60000).unref();
+    }
+
+    // Counts a request.  Returns 0 if the request is allowed, or the number of seconds until the client may try again
+    // if it is over its budget.
+    public countRequest(category: RateLimitCategory, key: string): number {
+        const limit = this.getLimit(category);
+        if (limit === null) {
+            return 0;
+        }
+
+        const now = this._clock.now().getTime();
+        const windowMsec = limit.windowSeconds * 1000;
+        const dictKey = { category: category, key: key };
+        var window = this._windows.lookup(dictKey, null);
+        if (window === null || window.startMsec + windowMsec <= now) {
+            window = { startMsec: now, count: 0 };
+            this._windows.set(dictKey, window);
+        }
+
+        window.count++;
+        if (window.count <= limit.maxRequests) {
+            return 0;
+        } else {
+            return Math.max(1, Math.ceil((window.startMsec + windowMsec - now) / 1000));
+        }
+    }
+
+    private getLimit(category: RateLimitCategory): RateLimit {
+        if (this._config === null) {
+            return null;
+        }
+        switch (category) {
+            case RateLimitCategory.Read: return this._config.read;
+            case RateLimitCategory.Write: return this._config.write;
+            case RateLimitCategory.Post: return this._config.post;
+            case RateLimitCategory.Message: return this._config.message;
+            default: return null;
+        }
+    }
+}
+
+// The error that a client receives when it is over its budget.
+export function rateLimitError(retryAfterSeconds: number): spec.ApiError {
+    return spec.apiError("ERR_RATE_LIMIT", 
+        "Too many requests.  Please try again in " + retryAfterSeconds + " seconds.");
+}
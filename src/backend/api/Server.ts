@@ -25,6 +25,7 @@ import * as fs from "fs";
 import * as path from "path";
 import * as bodyParser from "body-parser";
 import * as http from "http";
+import * as crypto from "crypto";
 import * as api from "./index";
 import * as collections from "../collections/index";
 import * as spec from "../spec/index";
@@ -40,20 +41,51 @@ export enum LogLevel {
 }
 
 export interface ServerConfiguration {
-    httpPort: number;
+    httpPort: number; // 0 to listen on any free port.  see getPort().
 
-    logFilePath: string;
+    logFilePath: string; // null to log only to the console
     logMaxFileSize: number;
     logMaxFiles: number;
     logUseJsonFormat: boolean;
     logFileLevel: LogLevel;
     logConsoleLevel: LogLevel;
+    
+    // legacy clients read client data with only a username.  set this to keep serving those reads (with a logged
+    // warning) while the clients are updated to send passwords.  writes always require a password.
+    allowUnauthenticatedClientDataReads: boolean;
+    
+    // path of the file where recent events are saved so that event IDs survive a restart.  null to keep events in
+    // memory only.
+    eventJournalFilePath: string;
+    
+    // request budgets per client.  null to disable rate limiting.
+    rateLimits: api.RateLimitConfiguration;
+    
+    // set this when the server is behind a reverse proxy, so that clients are identified (for rate limiting and 
+    // logging) by the address in the X-Forwarded-For header rather than the proxy's address.  either the number of
+    // proxies in front of the server, or a comma-separated list of the proxies' addresses and subnets (which may
+    // include Express's names "loopback", "linklocal" and "uniquelocal").  0 trusts no proxies.
+    trustProxy: number | string;
+
+    // where the server, its connectors and its routes get the current time.  use a SystemClock outside of tests.
+    clock: spec.IClock;
 
     accountConnector: spec.IAccountConnector;
     clientDataConnector: spec.IClientDataConnector;
+    lolConnector: spec.ILolConnector;
     messageConnector: spec.IMessageConnector;
+    notificationConnector: spec.INotificationConnector;
     threadConnector: spec.IThreadConnector;
     searchConnector: spec.ISearchConnector;
+    storyConnector: spec.IStoryConnector;
+}
+
+const SESSION_LIFETIME_MSEC = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface ISession {
+    token: string;
+    credentials: spec.UserCredentials;
+    expirationDate: Date;
 }
 
 export enum RequestMethod {
@@ -64,23 +96,39 @@ export class Server {
     private _config: ServerConfiguration;
     private _logger: winston.LoggerInstance;
     private _httpServer: http.Server = null;
+    private _sessions = new collections.Dictionary<string, ISession>(); // token -> session
+    private _sessionCleanupTimer: NodeJS.Timer = null;
+    private _rateLimiter: api.RateLimiter;
    
     public app: express.Express;
+    public clock: spec.IClock;
     public accountConnector: spec.IAccountConnector;
     public clientDataConnector: spec.IClientDataConnector;
+    public lolConnector: spec.ILolConnector;
     public messageConnector: spec.IMessageConnector;
+    public notificationConnector: spec.INotificationConnector;
     public threadConnector: spec.IThreadConnector;
     public searchConnector: spec.ISearchConnector;
-    public dispatcher: api.Dispatcher = new api.Dispatcher();
+    public storyConnector: spec.IStoryConnector;
+    public dispatcher: api.Dispatcher;
+    public eventSocketServer: api.EventSocketServer = new api.EventSocketServer();
+    public eventStreamServer: api.EventStreamServer = new api.EventStreamServer();
     
     constructor(config: ServerConfiguration) {
+        this.clock = config.clock;
         this.accountConnector = config.accountConnector;
         this.clientDataConnector = config.clientDataConnector;
+        this.lolConnector = config.lolConnector;
         this.messageConnector = config.messageConnector;
+        this.notificationConnector = config.notificationConnector;
         this.threadConnector = config.threadConnector;
         this.searchConnector = config.searchConnector;
+        this.storyConnector = config.storyConnector;
+        this.dispatcher = new api.Dispatcher(config.eventJournalFilePath);
         this._config = config;
+        this._rateLimiter = new api.RateLimiter(config.rateLimits, config.clock);
         this.app = express();
+        this.app.set("trust proxy", config.trustProxy);
         
         const customLogLevels = {
             levels: {
@@ -103,25 +151,28 @@ export class Server {
             }
         };
         
+        const transports: winston.TransportInstance[] = [
+            new winston.transports.Console({
+                level: config.logConsoleLevel.toString(),
+                handleExceptions: true,
+                json: false,
+                colorize: true
+            })
+        ];
+        if (config.logFilePath !== null) {
+            transports.unshift(new winston.transports.File({
+                level: config.logFileLevel.toString(),
+                filename: config.logFilePath,
+                handleExceptions: true,
+                json: config.logUseJsonFormat,
+                maxsize: config.logMaxFileSize,
+                maxFiles: config.logMaxFiles,
+                colorize: false
+            }));
+        }
         this._logger = new winston.Logger({
             levels: customLogLevels.levels,
-            transports: [
-                new winston.transports.File({
-                    level: config.logFileLevel.toString(),
-                    filename: config.logFilePath,
-                    handleExceptions: true,
-                    json: config.logUseJsonFormat,
-                    maxsize: config.logMaxFileSize,
-                    maxFiles: config.logMaxFiles,
-                    colorize: false
-                }),
-                new winston.transports.Console({
-                    level: config.logConsoleLevel.toString(),
-                    handleExceptions: true,
-                    json: false,
-                    colorize: true
-                })
-            ],
+            transports: transports,
             exitOnError: false
         });
         winston.addColors(customLogLevels.colors);
@@ -143,39 +194,88 @@ export class Server {
             filter: () => true,
             threshold: 1
         }));
-        this.app.use(bodyParser.urlencoded({ extended: false }));
+        // the default 100kb limit is too small for a 100,000 byte setClientData blob once it has been URL-encoded
+        this.app.use(bodyParser.urlencoded({ extended: false, limit: "1mb" }));
 
         // configure the connectors with a reference to the server instance
         this.accountConnector.injectServer(this);
         this.clientDataConnector.injectServer(this);
+        this.lolConnector.injectServer(this);
         this.messageConnector.injectServer(this);
+        this.notificationConnector.injectServer(this);
         this.threadConnector.injectServer(this);
         this.searchConnector.injectServer(this);
+        this.storyConnector.injectServer(this);
         this.dispatcher.injectServer(this);
+        this.eventSocketServer.injectServer(this);
+        this.eventStreamServer.injectServer(this);
+        
+        // once an hour, forget the sessions that have expired
+        this._sessionCleanupTimer = setInterval(() => {
+            const now = this.clock.now().getTime();
+            this._sessions.values()
+                .filter(x => x.expirationDate.getTime() <= now)
+                .forEach(x => this._sessions.remove(x.token));
+        }, 3600000);
+        this._sessionCleanupTimer.unref();
         
         // load all of the routes in ./routes/ automatically by searching the filesystem for .js files
         findFilesSync(path.join(__dirname, "routes")).forEach(routeFilePath => require(routeFilePath)(this));
     }
 
     public async run(): Promise<void> {
+        // the dispatcher goes first so that the event IDs pick up from the journal before any connector sends events
+        await this.dispatcher.start();
         await this.accountConnector.start();
         await this.messageConnector.start();
         await this.threadConnector.start();
         await this.clientDataConnector.start();
+        await this.lolConnector.start();
         await this.searchConnector.start();
-        this.dispatcher.start();
+        await this.storyConnector.start();
+        await this.notificationConnector.start();
         
-        this._httpServer = this.app.listen(this._config.httpPort);
-        this.log("status", "Server: Listening on port " + this._config.httpPort);
+        // rejects if the port can't be opened, e.g. because it is already in use
+        await new Promise<void>((resolve, reject) => {
+            const httpServer = this.app.listen(this._config.httpPort, () => {
+                httpServer.removeListener("error", reject);
+                this._httpServer = httpServer;
+                resolve();
+            });
+            httpServer.once("error", reject);
+        });
+        this.eventSocketServer.start(this._httpServer);
+        this.eventStreamServer.start();
+        this.log("status", "Server: Listening on port " + this.getPort());
+    }
+    
+    // The port that the server is listening on, which is only known after run() resolves if the configured port is 0.
+    public getPort(): number {
+        return this._httpServer === null ? this._config.httpPort : this._httpServer.address().port;
     }
     
     public async stop(): Promise<void> {
+        clearInterval(this._sessionCleanupTimer);
+        await this.notificationConnector.stop();
+        await this.storyConnector.stop();
+        await this.searchConnector.stop();
+        await this.lolConnector.stop();
+        await this.clientDataConnector.stop();
         await this.threadConnector.stop();
+        await this.messageConnector.stop();
+        await this.accountConnector.stop();
         this.dispatcher.stop();
+        this.eventSocketServer.stop();
+        this.eventStreamServer.stop();
         if (this._httpServer !== null) {
-            this._httpServer.close();
+            const httpServer = this._httpServer;
+            this._httpServer = null;
+            await new Promise<void>(resolve => httpServer.close(() => resolve()));
         }
         this.log("status", "Server: Stopped.");
+
+        // the logger's exception handler is process-wide, so it goes away with the server in case another is started
+        this._logger.unhandleExceptions();
     }
     
     public log(level: string, message: string): void {
@@ -189,8 +289,28 @@ export class Server {
         }));
     }
 
-    public addRoute(method: RequestMethod, path: string, handler: (req: express.Request) => Promise<any>): void {
+    // 'rateLimitCategory' defaults to Read for GET routes and Write for POST routes.  Legacy v1 routes pass the
+    // 'rateLimitResponse' that their clients expect when they are over their budget, instead of the JSON error.
+    public addRoute(method: RequestMethod, path: string, handler: (req: express.Request) => Promise<any>,
+            rateLimitCategory?: api.RateLimitCategory, rateLimitResponse?: spec.V1TextResponse): void {
+        if (typeof rateLimitCategory === "undefined") {
+            rateLimitCategory = method === RequestMethod.Get ? api.RateLimitCategory.Read : api.RateLimitCategory.Write;
+        }
+        
         const expressHandler: express.RequestHandler = (req, res) => {
+            const retryAfterSeconds = this.countRequest(req, rateLimitCategory);
+            if (retryAfterSeconds > 0 && typeof rateLimitResponse !== "undefined") {
+                // the same status as the route's other plain text errors
+                res.status(400);
+                res.set("Retry-After", retryAfterSeconds.toString());
+                res.type("text/plain");
+                res.send(rateLimitResponse.text);
+                return;
+            } else if (retryAfterSeconds > 0) {
+                this.sendRateLimitError(res, retryAfterSeconds);
+                return;
+            }
+            
             var handlerPromise: Promise<any>;
             try {
                 handlerPromise = handler(req);
@@ -200,21 +320,40 @@ export class Server {
             
             handlerPromise
                 .then(resData => {
-                    res.send(resData); 
+                    if (resData instanceof spec.V1TextResponse) {
+                        res.type("text/plain");
+                        res.send((<spec.V1TextResponse>resData).text);
+                    } else if (resData instanceof spec.HtmlResponse) {
+                        res.type("text/html");
+                        res.send((<spec.HtmlResponse>resData).html);
+                    } else {
+                        res.send(resData); 
+                    }
                 })
                 .catch(ex => {
-                    if (ex instanceof spec.V1Error) {
+                    if (ex instanceof spec.V1TextResponse) {
+                        res.status(400);
+                        res.type("text/plain");
+                        res.send((<spec.V1TextResponse>ex).text);
+                    } else if (ex instanceof spec.V1Error) {
                         res.status(400);
                         res.send(ex);
                     } else if (ex instanceof Error) {
-                        const error = <Error>ex;
+                        const error = <spec.ApiError>ex;
                         const code = error.name.substr(0, 4) === "ERR_" ? error.name : "ERR_SERVER";
-                        res.status(code === "ERR_SERVER" ? 500 : 400);
-                        res.send({
+                        const response: { [name: string]: string | boolean } = {
                             error: true,
                             code: code,
                             message: error.message
-                        });
+                        };
+                        const fields = error.fields;
+                        if (code !== "ERR_SERVER" && typeof fields === "object" && fields !== null) {
+                            Object.keys(fields).forEach(key => {
+                                response[key] = fields[key];
+                            });
+                        }
+                        res.status(code === "ERR_SERVER" ? 500 : 400);
+                        res.send(response);
                         if (code === "ERR_SERVER") {
                             this.log("critical", (ex.name || "???") + " -- " + (ex.message || "???"));
                         }
@@ -237,6 +376,61 @@ export class Server {
         }
     }
     
+    // Counts a request against the client's budget for 'category'.  Returns 0 if the request is allowed, or the number
+    // of seconds until the client may try again.  addRoute() does this itself; it is for requests handled elsewhere.
+    public countRequest(req: express.Request, category: api.RateLimitCategory): number {
+        const params = req.method === "GET" ? req.query : req.body;
+        const hasToken = typeof params === "object" && params !== null && typeof params.token === "string";
+        return this.countRequestFrom(req.ip, hasToken ? params.token : null, category);
+    }
+    
+    // Like countRequest(), for requests that didn't come through Express, such as WebSocket upgrades.  'address' is
+    // the client's address (see getClientAddress()) and 'token' is the session token that came with the request, if
+    // any.
+    public countRequestFrom(address: string, token: string, category: api.RateLimitCategory): number {
+        return this._rateLimiter.countRequest(category, this.getRateLimitKey(address, token));
+    }
+    
+    // The client's address for a request that didn't come through Express, following the trustProxy setting the same
+    // way that req.ip does: the nearest address in X-Forwarded-For that doesn't belong to a trusted proxy.
+    public getClientAddress(req: http.IncomingMessage): string {
+        const trust: (address: string, hop: number) => boolean = this.app.get("trust proxy fn");
+        const forwardedFor = req.headers["x-forwarded-for"];
+        const addresses = [req.connection.remoteAddress].concat(typeof forwardedFor !== "string" ? [] :
+            (<string>forwardedFor).split(",").map(x => x.trim()).filter(x => x.length > 0).reverse());
+        for (var i = 0; i < addresses.length - 1; i++) {
+            if (!trust(addresses[i], i)) {
+                return addresses[i];
+            }
+        }
+        return addresses[addresses.length - 1];
+    }
+    
+    // Sends the 429 response for a request that countRequest() has turned away.
+    public sendRateLimitError(res: express.Response, retryAfterSeconds: number): void {
+        const error = api.rateLimitError(retryAfterSeconds);
+        res.status(429);
+        res.set("Retry-After", retryAfterSeconds.toString());
+        res.send({
+            error: true,
+            code: error.name,
+            message: error.message
+        });
+    }
+    
+    // requests with a valid session token are counted against the user, so that users behind a shared address don't
+    // use up each other's budgets.  everything else is counted against the client's address, including requests with
+    // a username and password, since those haven't been verified yet and the username could be anyone's.
+    private getRateLimitKey(address: string, token: string): string {
+        if (token !== null) {
+            const session = this._sessions.lookup(token, null);
+            if (session !== null && session.expirationDate.getTime() > this.clock.now().getTime()) {
+                return "user:" + session.credentials.username.toLowerCase();
+            }
+        }
+        return "ip:" + address;
+    }
+    
     public async verifyLogin(username: string, password: string): Promise<spec.UserCredentials> {
         var credentials = await this.accountConnector.tryLogin(username, password);
         if (credentials === null) {
@@ -246,6 +440,104 @@ export class Server {
             return credentials;
         }
     }
+    
+    // Rejects with ERR_BANNED if the user is currently banned.  The error response includes the ban's reason and
+    // expiration date (null for a permanent ban).
+    public async verifyNotBanned(username: string): Promise<void> {
+        const ban = await this.accountConnector.getActiveBan(username);
+        if (ban !== null) {
+            const until = ban.expirationDate === null ? "permanently" : "until " + ban.expirationDate.toISOString();
+            return Promise.reject<void>(spec.apiError("ERR_BANNED", "You are banned " + until + ": " + ban.reason, {
+                reason: ban.reason,
+                expirationDate: ban.expirationDate === null ? null : ban.expirationDate.toISOString()
+            }));
+        }
+    }
+    
+    // Starts a new session for a user who has logged in, and resolves the session token that the client can pass 
+    // instead of a username and password.
+    public createSession(credentials: spec.UserCredentials): ISession {
+        const session: ISession = {
+            token: crypto.randomBytes(32).toString("hex"),
+            credentials: credentials,
+            expirationDate: new Date(this.clock.now().getTime() + SESSION_LIFETIME_MSEC)
+        };
+        this._sessions.set(session.token, session);
+        return session;
+    }
+    
+    // Ends a session.  Nothing happens if the token doesn't exist.
+    public revokeSession(token: string): void {
+        this._sessions.remove(token);
+    }
+    
+    // Resolves the credentials of the user who owns the session.  Rejects with ERR_INVALID_TOKEN if the session
+    // doesn't exist or has expired, in which case the client needs to log in again.
+    public async verifySessionToken(token: string): Promise<spec.UserCredentials> {
+        const session = this._sessions.lookup(token, null);
+        if (session === null || session.expirationDate.getTime() <= this.clock.now().getTime()) {
+            return Promise.reject<spec.UserCredentials>(spec.apiError(
+                "ERR_INVALID_TOKEN", "Your session has expired.  Please log in again."));
+        } else {
+            return session.credentials;
+        }
+    }
+    
+    // Resolves the credentials for a request that passes either a "token" from /v3/login or a "username" and 
+    // "password".
+    public async verifyQueryLogin(query: api.QueryParser): Promise<spec.UserCredentials> {
+        const token = query.getOptionalString("token", null);
+        if (token !== null) {
+            return this.verifySessionToken(token);
+        } else {
+            return this.verifyLogin(query.getString("username"), query.getString("password"));
+        }
+    }
+    
+    // Resolves the credentials passed with HTTP basic authentication, as the legacy v1 API does.  Rejects with 
+    // ERR_INVALID_LOGIN if they are missing or wrong.
+    public async verifyBasicAuthLogin(req: express.Request): Promise<spec.UserCredentials> {
+        const basicAuth = parseBasicAuth(req);
+        if (basicAuth === null) {
+            return Promise.reject<spec.UserCredentials>(spec.apiError(
+                "ERR_INVALID_LOGIN", "HTTP basic authentication is required."));
+        }
+        return this.verifyLogin(basicAuth.username, basicAuth.password);
+    }
+    
+    // Verifies that the request may access a user's client data, and resolves the username.  A request without a
+    // token or password is only permitted for reads and only if allowUnauthenticatedClientDataReads is enabled.
+    public async verifyClientDataLogin(query: api.QueryParser, isRead: boolean): Promise<string> {
+        const token = query.getOptionalString("token", null);
+        if (token !== null) {
+            const credentials = await this.verifySessionToken(token);
+            return credentials.username;
+        }
+        
+        const username = query.getString("username", 1, 50);
+        const password = query.getOptionalString("password", null);
+        if (password !== null) {
+            await this.verifyLogin(username, password);
+        } else if (isRead && this._config.allowUnauthenticatedClientDataReads) {
+            this.log("status", "Server: Unauthenticated client data read for user \"" + username + "\".");
+        } else {
+            return Promise.reject<string>(spec.apiError("ERR_ARGUMENT", "Missing argument \"password\""));
+        }
+        return username;
+    }
+}
+
+// Resolves the username and password from the request's Authorization header, or null if it doesn't use HTTP basic
+// authentication.  The credentials have not been verified.
+function parseBasicAuth(req: express.Request): { username: string, password: string } {
+    const header = req.get("Authorization");
+    const match = typeof header === "string" ? /^Basic\s+([A-Za-z0-9+\/=]+)\s*$/i.exec(header) : null;
+    const decoded = match === null ? "" : Buffer.from(match[1], "base64").toString("utf8");
+    const colonIndex = decoded.indexOf(":");
+    if (colonIndex === -1) {
+        return null;
+    }
+    return { username: decoded.substr(0, colonIndex), password: decoded.substr(colonIndex + 1) };
 }
 
 // Finds all files recursively in 'dir'.
@@ -0,0 +1,37 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as api from "./index";
+import * as spec from "./../spec/index";
+
+// Fills in the 'lols' list of each post.  The posts are modified in place, so pass copies (e.g. from 
+// spec.postToHtml) rather than posts that belong to the thread connector.
+export async function addLolCounts(server: api.Server, posts: spec.Post[]): Promise<void> {
+    if (posts.length === 0) {
+        return;
+    }
+    const counts = await server.lolConnector.getLolCounts(lodash.map(posts, x => x.id));
+    const countsByPostId = lodash.groupBy(counts, x => x.postId);
+    posts.forEach(post => {
+        post.lols = countsByPostId.hasOwnProperty(post.id.toString())
+            ? lodash.map(countsByPostId[post.id], x => ({ tag: x.tag, count: x.count }))
+            : [];
+    });
+}
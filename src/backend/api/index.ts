@@ -17,8 +17,13 @@
 /// <reference path="../../../typings/tsd.d.ts" />
 "use strict";
 
+export * from "./addLolCounts";
 export * from "./Dispatcher";
+export * from "./EventJournal";
+export * from "./EventSocketServer";
+export * from "./EventStreamServer";
 export * from "./HttpClient";
 export * from "./QueryParser";
+export * from "./RateLimiter";
 export * from "./removeNukedSubthreads";
 export * from "./Server";
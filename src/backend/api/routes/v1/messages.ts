@@ -0,0 +1,81 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../../index";
+import * as spec from "../../../spec/index";
+
+const MESSAGES_PER_PAGE = 50;
+
+// the legacy clients expect a single plain-text error string per route, whatever went wrong
+module.exports = (server: api.Server) => {
+    server.addRoute(api.RequestMethod.Post, "/v1/messages.json", async (req) => {
+        try {
+            const credentials = await server.verifyBasicAuthLogin(req);
+            const messages = await server.messageConnector.getMessages(credentials, spec.Mailbox.Inbox, 0, 
+                MESSAGES_PER_PAGE);
+            return {
+                user: credentials.username,
+                messages: messages.map(x => ({
+                    id: x.id.toString(),
+                    from: x.from,
+                    to: x.to,
+                    subject: x.subject,
+                    date: spec.toV1MessageDate(x.date),
+                    body: x.body,
+                    unread: x.unread
+                }))
+            };
+        } catch (ex) {
+            return Promise.reject(new spec.V1TextResponse("error_get_failed"));
+        }
+    }, api.RateLimitCategory.Write, new spec.V1TextResponse("error_get_failed"));
+    
+    server.addRoute(api.RequestMethod.Post, "/v1/messages/:id.json", async (req) => {
+        try {
+            const id = parseInt(req.params.id, 10);
+            if (!/^[0-9]+$/.test(req.params.id) || id < 1) {
+                return Promise.reject(new spec.V1TextResponse("error_mark_failed"));
+            }
+            const credentials = await server.verifyBasicAuthLogin(req);
+            await server.messageConnector.markMessageRead(credentials, id);
+            return new spec.V1TextResponse("ok");
+        } catch (ex) {
+            return Promise.reject(new spec.V1TextResponse("error_mark_failed"));
+        }
+    }, api.RateLimitCategory.Write, new spec.V1TextResponse("error_mark_failed"));
+    
+    server.addRoute(api.RequestMethod.Post, "/v1/messages/send/", async (req) => {
+        try {
+            const query = new api.QueryParser(req);
+            const recipient = query.getString("to");
+            const subject = query.getString("subject");
+            const body = query.getString("body");
+            const credentials = await server.verifyBasicAuthLogin(req);
+            await server.verifyNotBanned(credentials.username);
+            const recipientExists = await server.accountConnector.userExists(recipient);
+            if (!recipientExists) {
+                return Promise.reject(new spec.V1TextResponse("error_send_failed"));
+            }
+            await server.messageConnector.sendMessage(credentials, recipient, subject, body);
+            return new spec.V1TextResponse("OK");
+        } catch (ex) {
+            return Promise.reject(new spec.V1TextResponse("error_send_failed"));
+        }
+    }, api.RateLimitCategory.Message, new spec.V1TextResponse("error_send_failed"));
+};
@@ -0,0 +1,50 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../../index";
+import * as spec from "../../../spec/index";
+
+function toTextError(ex: any): spec.V1TextResponse {
+    const code = ex instanceof Error ? (<Error>ex).name : "";
+    switch (code) {
+        case "ERR_INVALID_LOGIN": return new spec.V1TextResponse("error_login_failed");
+        case "ERR_POST_RATE_LIMIT": return new spec.V1TextResponse("error_post_rate_limit");
+        default: return new spec.V1TextResponse("error_post_failed");
+    }
+}
+
+module.exports = (server: api.Server) => {
+    server.addRoute(api.RequestMethod.Post, "/v1/post/", async (req) => {
+        try {
+            const query = new api.QueryParser(req);
+            const parentIdText = query.getOptionalString("parent_id", "").trim();
+            const parentId = parentIdText === "" ? 0 : parseInt(parentIdText, 10);
+            const text = query.getString("body");
+            if (isNaN(parentId) || parentId < 0) {
+                return Promise.reject(spec.apiError("ERR_ARGUMENT", "parent_id must be a post ID."));
+            }
+            const credentials = await server.verifyBasicAuthLogin(req);
+            await server.verifyNotBanned(credentials.username);
+            await server.threadConnector.postComment(credentials, parentId, text);
+            return new spec.V1TextResponse("");
+        } catch (ex) {
+            return Promise.reject(toTextError(ex));
+        }
+    }, api.RateLimitCategory.Post, new spec.V1TextResponse("error_post_rate_limit"));
+};
@@ -0,0 +1,73 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../../index";
+import * as spec from "../../../spec/index";
+
+const RESULTS_PER_PAGE = 15;
+const PREVIEW_LENGTH = 150;
+
+function getPreview(post: spec.HtmlPost): string {
+    const html = spec.stripSpoilers(post.body, "_______").replace(/<br \/>/g, " ");
+    const text = spec.stripHtmlTags(html).replace(/\s+/g, " ").trim();
+    return text.length > PREVIEW_LENGTH ? text.substr(0, PREVIEW_LENGTH) + "..." : text;
+}
+
+module.exports = (server: api.Server) => {
+    server.addRoute(api.RequestMethod.Get, "/v1/search.json", async (req) => {
+        var termsText: string, author: string, parentAuthor: string, page: number, terms: spec.SearchQuery;
+        try {
+            const query = new api.QueryParser(req);
+            termsText = query.getOptionalString("terms", "").trim();
+            author = query.getOptionalString("author", "").trim();
+            parentAuthor = query.getOptionalString("parent_author", "").trim();
+            page = query.getOptionalInteger("page", 1, 1);
+            terms = termsText === "" ? null : spec.parseSearchQuery(termsText);
+        } catch (ex) {
+            return Promise.reject(new spec.V1Error((<Error>ex).message));
+        }
+        
+        if ((terms === null || terms.groups.length === 0) && author === "" && parentAuthor === "") {
+            return Promise.reject(new spec.V1Error(
+                "At least one of terms, author, or parent_author must be specified."));
+        }
+        
+        const results = await server.searchConnector.search({
+            terms: terms,
+            author: author === "" ? null : author,
+            parentAuthor: parentAuthor === "" ? null : parentAuthor,
+            category: null,
+            threadId: null,
+            after: null,
+            before: null,
+            offset: (page - 1) * RESULTS_PER_PAGE,
+            limit: RESULTS_PER_PAGE,
+            oldestFirst: false,
+            sort: spec.SearchSort.Date
+        });
+        
+        return {
+            terms: termsText,
+            author: author,
+            parent_author: parentAuthor,
+            last_page: Math.ceil(results.totalCount / RESULTS_PER_PAGE),
+            comments: results.posts.map(x => new spec.V1SearchResult(x.author, x.date, x.id, getPreview(x)))
+        };
+    });
+};
@@ -0,0 +1,66 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as api from "../../index";
+import * as spec from "../../../spec/index";
+
+const STORIES_PER_PAGE = 10;
+
+// the number of replies in each thread, not counting the root post.  nuked replies aren't counted, and a thread 
+// whose root post is nuked counts as 0.
+async function getCommentCounts(server: api.Server, threadIds: number[]): Promise<lodash.Dictionary<number>> {
+    const posts = api.removeNukedSubthreads(await server.threadConnector.getThreads(threadIds));
+    return lodash.countBy(posts, x => x.threadId);
+}
+
+function getCommentCount(counts: lodash.Dictionary<number>, threadId: number): number {
+    return counts.hasOwnProperty(threadId.toString()) ? counts[threadId] - 1 : 0;
+}
+
+async function getStory(server: api.Server, idText: string): Promise<spec.V1Story> {
+    const id = parseInt(idText, 10);
+    if (isNaN(id) || id < 1) {
+        return Promise.reject<spec.V1Story>(new spec.V1Error("id must be at least 1."));
+    }
+    var story: spec.Story;
+    try {
+        story = await server.storyConnector.getStory(id);
+    } catch (ex) {
+        return Promise.reject<spec.V1Story>(new spec.V1Error((<Error>ex).message));
+    }
+    const counts = await getCommentCounts(server, [story.threadId]);
+    return new spec.V1Story(story, getCommentCount(counts, story.threadId));
+}
+
+module.exports = (server: api.Server) => {
+    server.addRoute(api.RequestMethod.Get, "/v1/stories.json", async (req) => {
+        const stories = await server.storyConnector.getStories(0, STORIES_PER_PAGE);
+        const counts = await getCommentCounts(server, stories.map(x => x.threadId));
+        return stories.map(x => new spec.V1StorySummary(x, getCommentCount(counts, x.threadId)));
+    });
+    
+    server.addRoute(api.RequestMethod.Get, "/v1/stories/:id.json", async (req) => {
+        return await getStory(server, req.params.id);
+    });
+    
+    server.addRoute(api.RequestMethod.Get, "/v1/stories/:id.:ignored.json", async (req) => {
+        return await getStory(server, req.params.id);
+    });
+};
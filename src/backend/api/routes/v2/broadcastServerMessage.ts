@@ -23,11 +23,9 @@ import * as spec from "../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/broadcastServerMessage", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
         const message = query.getString("message");
-        const credentials = await server.accountConnector.tryLogin(username, password);
-        if (credentials === null || credentials.level < spec.UserAccessLevel.Administrator) {
+        const credentials = await server.verifyQueryLogin(query);
+        if (credentials.level < spec.UserAccessLevel.Administrator) {
             throw spec.apiError("ERR_INVALID_LOGIN", "Administrator-level credentials must be provided.");
         }
         
@@ -23,7 +23,7 @@ import * as spec from "../../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/clientData/clearMarkedPosts", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username", 1, 50);
+        const username = await server.verifyClientDataLogin(query, false);
         await server.clientDataConnector.clearMarkedPosts(username);
         return { result: "success" };
     });
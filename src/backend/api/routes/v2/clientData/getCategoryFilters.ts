@@ -21,18 +21,21 @@ import * as api from "../../../index";
 import * as spec from "../../../../spec/index";
 
 module.exports = (server: api.Server) => {
-    server.addRoute(api.RequestMethod.Get, "/v2/clientData/getCategoryFilters", async (req) => {
-        const query = new api.QueryParser(req);
-        const username = query.getString("username", 1, 50);
-        const flags = await server.clientDataConnector.getModerationFlagFilters(username);
-        return {
-            filters: {
-                nws: flags.some(x => x === spec.ModerationFlag.NotWorkSafe),
-                stupid: flags.some(x => x === spec.ModerationFlag.Stupid),
-                political: flags.some(x => x === spec.ModerationFlag.PoliticalReligious),
-                tangent: flags.some(x => x === spec.ModerationFlag.Tangent),
-                informative: flags.some(x => x === spec.ModerationFlag.Informative)
-            }
-        };
+    // reads are also accepted via POST so that clients can keep the password out of the URL
+    [api.RequestMethod.Get, api.RequestMethod.Post].forEach(method => {
+        server.addRoute(method, "/v2/clientData/getCategoryFilters", async (req) => {
+            const query = new api.QueryParser(req);
+            const username = await server.verifyClientDataLogin(query, true);
+            const flags = await server.clientDataConnector.getModerationFlagFilters(username);
+            return {
+                filters: {
+                    nws: flags.some(x => x === spec.ModerationFlag.NotWorkSafe),
+                    stupid: flags.some(x => x === spec.ModerationFlag.Stupid),
+                    political: flags.some(x => x === spec.ModerationFlag.PoliticalReligious),
+                    tangent: flags.some(x => x === spec.ModerationFlag.Tangent),
+                    informative: flags.some(x => x === spec.ModerationFlag.Informative)
+                }
+            };
+        });
     });
 };
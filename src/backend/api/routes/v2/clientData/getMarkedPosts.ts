@@ -21,10 +21,13 @@ import * as api from "../../../index";
 import * as spec from "../../../../spec/index";
 
 module.exports = (server: api.Server) => {
-    server.addRoute(api.RequestMethod.Get, "/v2/clientData/getMarkedPosts", async (req) => {
-        const query = new api.QueryParser(req);
-        const username = query.getString("username", 1, 50);
-        const dict = await server.clientDataConnector.getMarkedPosts(username);
-        return { markedPosts: dict.pairs().map(x => ({ id: x.key, type: x.value })) };
+    // reads are also accepted via POST so that clients can keep the password out of the URL
+    [api.RequestMethod.Get, api.RequestMethod.Post].forEach(method => {
+        server.addRoute(method, "/v2/clientData/getMarkedPosts", async (req) => {
+            const query = new api.QueryParser(req);
+            const username = await server.verifyClientDataLogin(query, true);
+            const dict = await server.clientDataConnector.getMarkedPosts(username);
+            return { markedPosts: dict.pairs().map(x => ({ id: x.key, type: x.value })) };
+        });
     });
 };
@@ -23,7 +23,6 @@ import * as spec from "../../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/clientData/setCategoryFilters", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username", 1, 50);
         
         const filters: spec.ModerationFlag[] = [];
         
@@ -38,6 +37,7 @@ module.exports = (server: api.Server) => {
         if (query.getBoolean("informative"))
             filters.push(spec.ModerationFlag.Informative);
         
+        const username = await server.verifyClientDataLogin(query, false);
         await server.clientDataConnector.setModerationFlagFilters(username, filters);
         return { result: "success" };
     });
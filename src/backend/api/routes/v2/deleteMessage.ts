@@ -23,11 +23,9 @@ import * as spec from "../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/deleteMessage", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
         const messageId = query.getInteger("messageId");
         const mailbox = query.getMailbox("folder");
-        const credentials = await server.verifyLogin(username, password);
+        const credentials = await server.verifyQueryLogin(query);
         await server.messageConnector.deleteMessage(credentials, messageId, mailbox);
         return { result: "success" };
     });
@@ -23,7 +23,7 @@ import * as spec from "../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Get, "/v2/getAllTenYearUsers", async (req) => {
         const tenYearsInMsec = 315400000000;
-        const tenYearsAgoMsec = new Date().getTime() - tenYearsInMsec;
+        const tenYearsAgoMsec = server.clock.now().getTime() - tenYearsInMsec;
         const dict = await server.accountConnector.getUserRegistrationDates();
         return {
             users: dict.pairs()
@@ -28,20 +28,22 @@ module.exports = (server: api.Server) => {
         const count = query.getOptionalInteger("count", 9999, 1, 9999);
         const expiration = query.getOptionalInteger("expiration", 18, 1, 36);
         const allThreadIds = await server.threadConnector.getActiveThreadIds(count, expiration);
-        const posts = api.removeNukedSubthreads(await server.threadConnector.getThreads(allThreadIds));
+        const posts = lodash.map(
+            api.removeNukedSubthreads(await server.threadConnector.getThreads(allThreadIds)), spec.postToHtml);
+        await api.addLolCounts(server, posts);
         const unnukedThreadIds = Set.fromArray(lodash.chain(posts).map(x => x.threadId).union().value(), x => x);
         const threads = lodash.groupBy(posts.filter(x => unnukedThreadIds.contains(x.threadId)), x => x.threadId);
             // "threadId" -> Post[]
         return {
             threads: lodash
                 .chain(threads)
-                .map((threadPosts: spec.Post[]) => ({ 
+                .map((threadPosts: spec.HtmlPost[]) => ({ 
                     threadId: threadPosts[0].threadId, 
                     posts: threadPosts, 
                     newestPost: lodash.max(threadPosts, z => z.id) 
                 }))
                 .sortBy(x => -x.newestPost)
-                .map(x => ({ threadId: x.threadId, posts: lodash.map(x.posts, spec.postToHtml) }))
+                .map(x => ({ threadId: x.threadId, posts: x.posts }))
                 .value()
         };
     });
@@ -23,9 +23,7 @@ import * as spec from "../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/getMessageCount", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
-        const credentials = await server.verifyLogin(username, password);
+        const credentials = await server.verifyQueryLogin(query);
         const counts = await server.messageConnector.getMessageCount(credentials, spec.Mailbox.Inbox);
         return counts;
     });
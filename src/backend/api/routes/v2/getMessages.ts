@@ -25,11 +25,9 @@ const MESSAGES_PER_PAGE = 50;
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/getMessages", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
         const folder = query.getMailbox("folder");
         const page = query.getInteger("page", 1);
-        const credentials = await server.verifyLogin(username, password);
+        const credentials = await server.verifyQueryLogin(query);
         const messages = await server.messageConnector.getMessages(credentials, folder, 
             (page - 1) * MESSAGES_PER_PAGE, MESSAGES_PER_PAGE);
         const counts = await server.messageConnector.getMessageCount(credentials, folder);
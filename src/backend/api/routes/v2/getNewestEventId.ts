@@ -22,6 +22,6 @@ import * as spec from "../../../spec/index";
 
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Get, "/v2/getNewestEventId", async (req) => {
-        return { eventId: server.dispatcher.getNewestEventId() };
+        return { eventId: server.dispatcher.getNewestEventId(), epoch: server.dispatcher.getEpoch() };
     });
 };
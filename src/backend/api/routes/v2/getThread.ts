@@ -26,11 +26,13 @@ module.exports = (server: api.Server) => {
         const query = new api.QueryParser(req);
         const postIds = query.getIntegerList("id", 1, 50, 1);
         const posts = api.removeNukedSubthreads(await server.threadConnector.getThreads(postIds));
-        const threads = lodash.groupBy(posts, x => x.threadId);
+        const htmlPosts = lodash.map(posts, spec.postToHtml);
+        await api.addLolCounts(server, htmlPosts);
+        const threads = lodash.groupBy(htmlPosts, x => x.threadId);
         return {
             threads: lodash.map(threads, thread => ({
                 threadId: thread[0].threadId,
-                posts: lodash.map(thread, spec.postToHtml)
+                posts: thread
             }))
         };
     });
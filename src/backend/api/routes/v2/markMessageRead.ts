@@ -23,10 +23,8 @@ import * as spec from "../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/markMessageRead", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
         const messageId = query.getInteger("messageId");
-        const credentials = await server.verifyLogin(username, password);
+        const credentials = await server.verifyQueryLogin(query);
         await server.messageConnector.markMessageRead(credentials, messageId);
         return { result: "success" };
     });
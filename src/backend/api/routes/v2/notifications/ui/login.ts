@@ -0,0 +1,81 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../../../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../../../../index";
+import * as spec from "../../../../../spec/index";
+
+// a simple notifier client opens this page in the user's browser so that the user can attach the client to their
+// account.  the client never sees the password.
+module.exports = (server: api.Server) => {
+    server.addRoute(api.RequestMethod.Get, "/v2/notifications/ui/login", async (req) => {
+        try {
+            const query = new api.QueryParser(req);
+            return loginPage(query.getString("clientId", 36, 36), null);
+        } catch (ex) {
+            return messagePage(ex.message);
+        }
+    });
+    
+    server.addRoute(api.RequestMethod.Post, "/v2/notifications/ui/login", async (req) => {
+        const query = new api.QueryParser(req);
+        var clientId: string;
+        var credentials: spec.UserCredentials;
+        try {
+            clientId = query.getString("clientId", 36, 36);
+        } catch (ex) {
+            return messagePage(ex.message);
+        }
+        try {
+            credentials = await server.verifyQueryLogin(query);
+        } catch (ex) {
+            return loginPage(clientId, ex.message);
+        }
+        try {
+            await server.notificationConnector.attachAccount(clientId, credentials.username);
+        } catch (ex) {
+            return messagePage(ex.message);
+        }
+        return messagePage("The notifier is now attached to " + credentials.username + ".  You may close this window.");
+    });
+};
+
+function loginPage(clientId: string, errorMessage: string): spec.HtmlResponse {
+    return page(
+        "<p>Log in to receive notifications in your notifier.</p>" +
+        (errorMessage === null ? "" : "<p><b>" + escapeHtml(errorMessage) + "</b></p>") +
+        "<form method=\"post\" action=\"login\">" +
+        "<input type=\"hidden\" name=\"clientId\" value=\"" + escapeHtml(clientId) + "\" />" +
+        "<p><label>Username: <input type=\"text\" name=\"username\" /></label></p>" +
+        "<p><label>Password: <input type=\"password\" name=\"password\" /></label></p>" +
+        "<p><input type=\"submit\" value=\"Log in\" /></p>" +
+        "</form>");
+}
+
+function messagePage(message: string): spec.HtmlResponse {
+    return page("<p>" + escapeHtml(message) + "</p>");
+}
+
+function page(body: string): spec.HtmlResponse {
+    return new spec.HtmlResponse("<!DOCTYPE html><html><head><meta charset=\"utf-8\" />" +
+        "<title>WebChatty Notifications</title></head><body>" + body + "</body></html>");
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
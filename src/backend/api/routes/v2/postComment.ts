@@ -18,21 +18,15 @@
 "use strict";
 
 import * as api from "../../index";
-import * as spec from "../../../spec/index";
 
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/postComment", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
         const parentId = query.getInteger("parentId");
         const text = query.getString("text");
-        const credentials = await server.verifyLogin(username, password);
-        const isBanned = await server.accountConnector.isUserBanned(username);
-        if (isBanned) {
-            return Promise.reject(spec.apiError("ERR_BANNED", "You are banned."));
-        }
+        const credentials = await server.verifyQueryLogin(query);
+        await server.verifyNotBanned(credentials.username);
         var newPostId = await server.threadConnector.postComment(credentials, parentId, text);
         return { result: "success", newPostId: newPostId };
-    });
+    }, api.RateLimitCategory.Post);
 };
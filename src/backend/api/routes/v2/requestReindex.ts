@@ -18,9 +18,22 @@
 "use strict";
 
 import * as api from "../../index";
+import * as spec from "../../../spec/index";
 
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/requestReindex", async (req) => {
+        const query = new api.QueryParser(req);
+        const credentials = await server.verifyQueryLogin(query);
+        if (credentials.level < spec.UserAccessLevel.Administrator) {
+            throw spec.apiError("ERR_INVALID_LOGIN", "Administrator-level credentials must be provided.");
+        }
+        
+        // the rebuild runs in the background; the client can follow along with /v2/getReindexStatus
+        server.log("status", "Search reindex requested by " + credentials.username + ".");
+        server.searchConnector.rebuildIndex().catch(ex => {
+            server.log("critical", "Search reindex failed: " + ex.toString() + " -- " + 
+                (ex instanceof Error ? ex.stack : ""));
+        });
         return { result: "success" };
     });
 };
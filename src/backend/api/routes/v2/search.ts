@@ -29,23 +29,48 @@ function emptyToNull(str: string): string {
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Get, "/v2/search", async (req) => {
         const query = new api.QueryParser(req);
-        const terms = emptyToNull(query.getOptionalString("terms", "").trim());
+        const termsText = emptyToNull(query.getOptionalString("terms", "").trim());
+        const terms = termsText === null ? null : spec.parseSearchQuery(termsText);
         const author = emptyToNull(query.getOptionalString("author", "").trim());
         const parentAuthor = emptyToNull(query.getOptionalString("parentAuthor", "").trim());
         const category = query.getOptionalModerationFlag("category", null);
+        const threadId = query.getOptionalInteger("threadId", null);
+        const after = query.getOptionalDate("after", null);
+        const before = query.getOptionalDate("before", null);
         const offset = query.getOptionalInteger("offset", 0);
         const limit = query.getOptionalInteger("limit", 35, 1, 500);
         const oldestFirst = query.getOptionalBoolean("oldestFirst", false);
+        const sort = query.getOptionalSearchSort("sort", spec.SearchSort.Date);
         
-        if (terms === null && author === null && parentAuthor === null && category === null) {
+        const hasFilter = author !== null || parentAuthor !== null || category !== null || threadId !== null;
+        if (terms === null && !hasFilter) {
             return Promise.reject(spec.apiError(
-                "ERR_ARGUMENT", "At least one of [terms, author, parentAuthor, category] must be specified."));
+                "ERR_ARGUMENT", "At least one of [terms, author, parentAuthor, category, threadId] must be specified."));
+        } else if (terms !== null && terms.groups.length === 0 && !hasFilter) {
+            return Promise.reject(spec.apiError(
+                "ERR_ARGUMENT", "Search terms that only exclude posts must be combined with another term or filter."));
         } else if (category === spec.ModerationFlag.Nuked) {
             return Promise.reject(spec.apiError("ERR_ARGUMENT", "category cannot be \"nuked\"."));
+        } else if (after !== null && before !== null && after.getTime() >= before.getTime()) {
+            return Promise.reject(spec.apiError("ERR_ARGUMENT", "after must be earlier than before."));
         }
         
-        const htmlPosts = await server.searchConnector.search(
-            terms, author, parentAuthor, category, offset, limit, oldestFirst);
-        return { posts: htmlPosts };
+        const results = await server.searchConnector.search({
+            terms: terms,
+            author: author,
+            parentAuthor: parentAuthor,
+            category: category,
+            threadId: threadId,
+            after: after,
+            before: before,
+            offset: offset,
+            limit: limit,
+            oldestFirst: oldestFirst,
+            sort: sort
+        });
+        return {
+            posts: results.posts.map(x => lodash.assign({}, x, { snippet: spec.getSearchSnippet(x, terms) })),
+            totalCount: results.totalCount
+        };
     });
 };
@@ -23,17 +23,16 @@ import * as spec from "../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/sendMessage", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
         const recipient = query.getString("to");
         const subject = query.getString("subject");
         const body = query.getString("body");
-        const credentials = await server.verifyLogin(username, password);
+        const credentials = await server.verifyQueryLogin(query);
+        await server.verifyNotBanned(credentials.username);
         const recipientExists = await server.accountConnector.userExists(recipient);
         if (!recipientExists) {
             return Promise.reject(spec.apiError("ERR_INVALID_RECIPIENT", "Recipient user does not exist."));
         }
         await server.messageConnector.sendMessage(credentials, recipient, subject, body);
         return { result: "success" };
-    });
+    }, api.RateLimitCategory.Message);
 };
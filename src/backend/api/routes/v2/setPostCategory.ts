@@ -23,12 +23,10 @@ import * as spec from "../../../spec/index";
 module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Post, "/v2/setPostCategory", async (req) => {
         const query = new api.QueryParser(req);
-        const username = query.getString("username");
-        const password = query.getString("password");
         const postId = query.getInteger("postId");
         const category = query.getModerationFlag("category");
         
-        const credentials = await server.verifyLogin(username, password);
+        const credentials = await server.verifyQueryLogin(query);
         if (credentials.level < spec.UserAccessLevel.Moderator) {
             return Promise.reject(spec.apiError("ERR_NOT_MODERATOR", "Please provide moderator credentials."));
         }
@@ -24,11 +24,10 @@ module.exports = (server: api.Server) => {
     server.addRoute(api.RequestMethod.Get, "/v2/waitForEvent", async (req) => {
         const query = new api.QueryParser(req);
         const lastEventId = query.getInteger("lastEventId");
+        const epoch = query.getOptionalString("epoch", null);
+        server.dispatcher.verifyEpoch(epoch, lastEventId);
         const events = await server.dispatcher.waitForEvent(lastEventId);
-        if (events.length > 0) {
-            return { lastEventId: events[events.length - 1].eventId, events: events };
-        } else {
-            return { lastEventId: lastEventId, events: events};
-        }
+        const newLastEventId = events.length > 0 ? events[events.length - 1].eventId : lastEventId;
+        return { lastEventId: newLastEventId, epoch: server.dispatcher.getEpoch(), events: events };
     }); 
 };
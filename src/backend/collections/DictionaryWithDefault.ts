@@ -53,6 +53,11 @@ export class DictionaryWithDefault<TKey, TValue> {
         }
     }
     
+    // unlike get(), this does not insert the default value for a missing key.
+    public lookup(key: TKey, defaultValue?: TValue): TValue {
+        return this._dict.lookup(key, defaultValue);
+    }
+    
     public count(): number {
         return this._dict.count();
     }
@@ -0,0 +1,191 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as util from "util";
+import * as spec from "../spec/index";
+
+const integerRegEx = /^[0-9]+$/;
+
+// Reads the values in one object of a configuration file, in the style of QueryParser.  Every problem is reported by
+// throwing an ERR_CONFIG error whose message names the full path of the offending value, e.g. "connectors.thread.type".
+// Once a section has been read, checkUnusedKeys() catches misspelled or misplaced settings.
+export class ConfigReader {
+    private _obj: any;
+    private _path: string; // "" for the root of the file
+    private _usedKeys: string[] = [];
+    
+    constructor(obj: any, path: string) {
+        if (obj === null || typeof obj !== "object" || Array.isArray(obj)) {
+            throw configError(path, "must be an object.");
+        }
+        this._obj = obj;
+        this._path = path;
+    }
+    
+    public has(name: string): boolean {
+        return this._obj.hasOwnProperty(name);
+    }
+    
+    // True if the value is present and explicitly null.
+    public isNull(name: string): boolean {
+        this.use(name);
+        return this.has(name) && this._obj[name] === null;
+    }
+    
+    // True if the value is present and is a string, for settings that may be given in more than one form.
+    public isString(name: string): boolean {
+        this.use(name);
+        return this.has(name) && typeof this._obj[name] === "string";
+    }
+    
+    public getString(name: string): string {
+        const value = this.get(name);
+        if (typeof value !== "string") {
+            throw configError(this.childPath(name), "must be a string.");
+        }
+        return value;
+    }
+    
+    public getOptionalString(name: string, defaultValue: string): string {
+        return this.has(name) ? this.getString(name) : defaultValue;
+    }
+    
+    // null is allowed in addition to strings.  This is for paths and such where null turns the feature off.
+    public getNullableString(name: string, defaultValue: string): string {
+        return this.isNull(name) ? null : this.getOptionalString(name, defaultValue);
+    }
+    
+    // Either a JSON number or a string containing one, since a value from an environment variable is always a string.
+    public getInteger(name: string, min?: number, max?: number): number {
+        if (typeof min === "undefined") {
+            min = 0;
+        }
+        if (typeof max === "undefined") {
+            max = 2147483647;
+        }
+        
+        const value = this.get(name);
+        const num = typeof value === "string" && integerRegEx.test(value) ? parseInt(value, 10) : value;
+        if (typeof num !== "number" || num % 1 !== 0) {
+            throw configError(this.childPath(name), "must be an integer.");
+        } else if (num < min) {
+            throw configError(this.childPath(name), util.format("must be greater than or equal to %d.", min));
+        } else if (num > max) {
+            throw configError(this.childPath(name), util.format("must be less than or equal to %d.", max));
+        }
+        return num;
+    }
+    
+    public getOptionalInteger(name: string, defaultValue: number, min?: number, max?: number): number {
+        return this.has(name) ? this.getInteger(name, min, max) : defaultValue;
+    }
+    
+    // Either a JSON boolean or the string "true" or "false".
+    public getBoolean(name: string): boolean {
+        const value = this.get(name);
+        if (value === true || value === "true") {
+            return true;
+        } else if (value === false || value === "false") {
+            return false;
+        } else {
+            throw configError(this.childPath(name), "must be either true or false.");
+        }
+    }
+    
+    public getOptionalBoolean(name: string, defaultValue: boolean): boolean {
+        return this.has(name) ? this.getBoolean(name) : defaultValue;
+    }
+    
+    // A date string in any format that the Date constructor understands, preferably ISO 8601.
+    public getDate(name: string): Date {
+        const date = new Date(this.getString(name));
+        if (isNaN(date.getTime())) {
+            throw configError(this.childPath(name), "must be a date, such as \"2015-01-31T00:00:00Z\".");
+        }
+        return date;
+    }
+    
+    public getOptionalDate(name: string, defaultValue: Date): Date {
+        return this.has(name) ? this.getDate(name) : defaultValue;
+    }
+    
+    // One of the strings in 'choices', which are compared case-insensitively.  Resolves the choice's index.
+    public getChoice(name: string, choices: string[]): number {
+        const value = this.getString(name).toLowerCase();
+        const index = lodash.findIndex(choices, x => x.toLowerCase() === value);
+        if (index === -1) {
+            throw configError(this.childPath(name), util.format("must be one of: %s.", choices.join(", ")));
+        }
+        return index;
+    }
+    
+    public getSection(name: string): ConfigReader {
+        return new ConfigReader(this.get(name), this.childPath(name));
+    }
+    
+    // Resolves an empty section if the value is missing, so that all of its settings take their defaults.
+    public getOptionalSection(name: string): ConfigReader {
+        return this.has(name) ? this.getSection(name) : new ConfigReader({}, this.childPath(name));
+    }
+    
+    public getSectionList(name: string): ConfigReader[] {
+        const value = this.get(name);
+        if (!Array.isArray(value)) {
+            throw configError(this.childPath(name), "must be an array.");
+        }
+        return (<any[]>value).map((x, i) => new ConfigReader(x, this.childPath(name) + "[" + i + "]"));
+    }
+    
+    public getOptionalSectionList(name: string): ConfigReader[] {
+        return this.has(name) ? this.getSectionList(name) : [];
+    }
+    
+    // Throws if the section contains any keys that haven't been read.
+    public checkUnusedKeys(): void {
+        const unusedKeys = lodash.difference(Object.keys(this._obj), this._usedKeys);
+        if (unusedKeys.length > 0) {
+            throw configError(this.childPath(unusedKeys[0]), "is not a recognized setting.");
+        }
+    }
+    
+    private get(name: string): any {
+        this.use(name);
+        if (!this.has(name)) {
+            throw configError(this.childPath(name), "must be provided.");
+        }
+        return this._obj[name];
+    }
+    
+    private use(name: string): void {
+        if (!lodash.contains(this._usedKeys, name)) {
+            this._usedKeys.push(name);
+        }
+    }
+    
+    private childPath(name: string): string {
+        return this._path === "" ? name : this._path + "." + name;
+    }
+}
+
+// 'path' is "" for the file as a whole.
+export function configError(path: string, message: string): Error {
+    return spec.apiError("ERR_CONFIG", path === "" ? "The configuration " + message 
+        : util.format("The setting \"%s\" %s", path, message));
+}
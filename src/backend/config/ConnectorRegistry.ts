@@ -0,0 +1,110 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as config from "./index";
+import * as spec from "../spec/index";
+import { Dictionary } from "../collections/index";
+
+// The kinds of connector that a server needs, which are also the keys of the "connectors" section of a configuration
+// file.
+export enum ConnectorKind {
+    Account = <any>"account",
+    ClientData = <any>"clientData",
+    Lol = <any>"lol",
+    Message = <any>"message",
+    Notification = <any>"notification",
+    Thread = <any>"thread",
+    Search = <any>"search",
+    Story = <any>"story"
+}
+
+// Creates a connector from its section of the configuration file.  The section's "type" key has already been read;
+// the factory reads the rest.  'T' is the connector interface for the kind that the factory is registered under.
+export interface ConnectorFactory<T> {
+    (options: config.ConfigReader, context: ConnectorContext): T;
+}
+
+// Holds the objects that several connectors share, such as a database connection, for the connectors created from
+// a single configuration file.
+export class ConnectorContext {
+    private _config: config.ConfigReader;
+    private _shared = new Dictionary<string, any>();
+    private _closers: (() => Promise<void>)[] = [];
+    
+    public clock: spec.IClock;
+    
+    constructor(configReader: config.ConfigReader, clock: spec.IClock) {
+        this._config = configReader;
+        this.clock = clock;
+    }
+    
+    // Gets the object shared under 'name', creating it the first time from the top-level section of the same name.
+    // 'close' is called when the server shuts down.
+    public getShared<T>(name: string, create: (options: config.ConfigReader) => T, close?: (obj: T) => Promise<void>)
+            : T {
+        if (!this._shared.containsKey(name)) {
+            const options = this._config.getSection(name);
+            const obj = create(options);
+            options.checkUnusedKeys();
+            this._shared.set(name, obj);
+            if (typeof close !== "undefined") {
+                this._closers.push(() => close(obj));
+            }
+        }
+        return <T>this._shared.get(name);
+    }
+    
+    // Releases the shared objects.  Call this after the server has stopped.
+    public async close(): Promise<void> {
+        for (var i = 0; i < this._closers.length; i++) {
+            await this._closers[i]();
+        }
+        this._closers = [];
+    }
+}
+
+// Maps the "type" names used in configuration files to connector factories.  Connectors that aren't built into
+// WebChatty can be registered here to make them available to configuration files.
+export class ConnectorRegistry {
+    private _factories = new Dictionary<{kind: ConnectorKind, type: string}, ConnectorFactory<Object>>();
+    
+    public register<T>(kind: ConnectorKind, type: string, factory: ConnectorFactory<T>): void {
+        this._factories.set({ kind: kind, type: type }, factory);
+    }
+    
+    // The type names registered for this kind of connector, in alphabetical order.
+    public getTypes(kind: ConnectorKind): string[] {
+        return lodash.chain(this._factories.keys())
+            .filter(x => x.kind === kind)
+            .map(x => x.type)
+            .sortBy(x => x)
+            .value();
+    }
+    
+    // Creates a connector from its section of the configuration file, which names its "type".  'T' must be the
+    // connector interface for 'kind', which is what the factories registered under 'kind' create.
+    public create<T>(kind: ConnectorKind, options: config.ConfigReader, context: ConnectorContext): T {
+        const types = this.getTypes(kind);
+        const type = types[options.getChoice("type", types)];
+        const connector = this._factories.get({ kind: kind, type: type })(options, context);
+        options.checkUnusedKeys();
+        return <T>connector;
+    }
+}
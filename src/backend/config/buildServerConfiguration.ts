@@ -0,0 +1,172 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as fs from "fs";
+import * as lodash from "lodash";
+import * as net from "net";
+import * as api from "../api/index";
+import * as config from "./index";
+import * as connectors from "../connectors/index";
+import * as spec from "../spec/index";
+
+const PROXY_NAMES = ["loopback", "linklocal", "uniquelocal"];
+const LOG_LEVELS = ["none", "test", "critical", "event", "status", "request", "debug"];
+const DEFAULT_RATE_LIMITS: api.RateLimitConfiguration = {
+    read: { maxRequests: 600, windowSeconds: 60 },
+    write: { maxRequests: 120, windowSeconds: 60 },
+    post: { maxRequests: 10, windowSeconds: 60 },
+    message: { maxRequests: 10, windowSeconds: 60 }
+};
+
+export interface LoadedServerConfiguration {
+    serverConfiguration: api.ServerConfiguration;
+    
+    // holds the objects shared between connectors.  close it after the server stops.
+    context: config.ConnectorContext;
+}
+
+// Reads a JSON configuration file, fills in environment variables (see interpolateEnvironment) and builds the server
+// configuration.  Rejects with an ERR_CONFIG error that describes the first problem found.
+export async function loadServerConfigurationFile(filePath: string, registry: config.ConnectorRegistry)
+        : Promise<LoadedServerConfiguration> {
+    const text = await new Promise<string>((resolve, reject) => {
+        fs.readFile(filePath, "utf8", (err, data) => err 
+            ? reject(spec.apiError("ERR_CONFIG", "Unable to read the configuration file: " + err.message)) 
+            : resolve(data));
+    });
+    
+    var obj: any;
+    try {
+        obj = JSON.parse(text);
+    } catch (ex) {
+        return Promise.reject<LoadedServerConfiguration>(spec.apiError("ERR_CONFIG", 
+            "The configuration file is not valid JSON: " + (<Error>ex).message));
+    }
+    return buildServerConfiguration(obj, registry, process.env, new connectors.SystemClock());
+}
+
+// Builds the server configuration from the parsed contents of a configuration file.  Every setting except for the
+// connectors mirrors the ServerConfiguration field of the same name; log levels are given by name.  Most settings have
+// defaults.  The "connectors" section has a section for each ConnectorKind, naming its "type" in 'registry' along
+// with that type's options, and each kind defaults to the "memory" type.  Throws an ERR_CONFIG error if a setting is
+// missing, invalid or unrecognized.
+export function buildServerConfiguration(obj: any, registry: config.ConnectorRegistry, 
+        env: { [name: string]: string }, clock: spec.IClock): LoadedServerConfiguration {
+    const root = new config.ConfigReader(config.interpolateEnvironment(obj, env), "");
+    const context = new config.ConnectorContext(root, clock);
+    
+    const connectorsSection = root.getOptionalSection("connectors");
+    function createConnector<T>(kind: config.ConnectorKind): T {
+        const options = connectorsSection.has(kind.toString()) ? connectorsSection.getSection(kind.toString()) 
+            : new config.ConfigReader({ type: "memory" }, "connectors." + kind);
+        return registry.create<T>(kind, options, context);
+    }
+    const accountConnector = createConnector<spec.IAccountConnector>(config.ConnectorKind.Account);
+    const clientDataConnector = createConnector<spec.IClientDataConnector>(config.ConnectorKind.ClientData);
+    const lolConnector = createConnector<spec.ILolConnector>(config.ConnectorKind.Lol);
+    const messageConnector = createConnector<spec.IMessageConnector>(config.ConnectorKind.Message);
+    const notificationConnector = createConnector<spec.INotificationConnector>(config.ConnectorKind.Notification);
+    const threadConnector = createConnector<spec.IThreadConnector>(config.ConnectorKind.Thread);
+    const searchConnector = createConnector<spec.ISearchConnector>(config.ConnectorKind.Search);
+    const storyConnector = createConnector<spec.IStoryConnector>(config.ConnectorKind.Story);
+    connectorsSection.checkUnusedKeys();
+    
+    const serverConfiguration: api.ServerConfiguration = {
+        httpPort: root.getOptionalInteger("httpPort", 8080, 0, 65535),
+        logFilePath: root.getNullableString("logFilePath", null),
+        logMaxFileSize: root.getOptionalInteger("logMaxFileSize", 5000000, 1),
+        logMaxFiles: root.getOptionalInteger("logMaxFiles", 5, 1),
+        logUseJsonFormat: root.getOptionalBoolean("logUseJsonFormat", false),
+        logFileLevel: getLogLevel(root, "logFileLevel", api.LogLevel.Request),
+        logConsoleLevel: getLogLevel(root, "logConsoleLevel", api.LogLevel.Debug),
+        allowUnauthenticatedClientDataReads: root.getOptionalBoolean("allowUnauthenticatedClientDataReads", false),
+        eventJournalFilePath: root.getNullableString("eventJournalFilePath", null),
+        rateLimits: getRateLimits(root),
+        trustProxy: getTrustProxy(root),
+        clock: clock,
+        accountConnector: accountConnector,
+        clientDataConnector: clientDataConnector,
+        lolConnector: lolConnector,
+        messageConnector: messageConnector,
+        notificationConnector: notificationConnector,
+        threadConnector: threadConnector,
+        searchConnector: searchConnector,
+        storyConnector: storyConnector
+    };
+    root.checkUnusedKeys();
+    return { serverConfiguration: serverConfiguration, context: context };
+}
+
+function getLogLevel(root: config.ConfigReader, name: string, defaultValue: api.LogLevel): api.LogLevel {
+    return root.has(name) ? <api.LogLevel><any>LOG_LEVELS[root.getChoice(name, LOG_LEVELS)] : defaultValue;
+}
+
+// Either a number of proxies, or a comma-separated list of proxy addresses, subnets and the names that Express knows.
+function getTrustProxy(root: config.ConfigReader): number | string {
+    if (!root.isString("trustProxy")) {
+        return root.getOptionalInteger("trustProxy", 0, 0, 100);
+    }
+    const value = root.getString("trustProxy").trim();
+    if (/^[0-9]+$/.test(value)) {
+        return root.getInteger("trustProxy", 0, 100);
+    }
+    const valid = value.split(",").every(x => {
+        const entry = x.trim();
+        const slashIndex = entry.indexOf("/");
+        const address = slashIndex === -1 ? entry : entry.substr(0, slashIndex);
+        return lodash.contains(PROXY_NAMES, entry) || 
+            (net.isIP(address) !== 0 && (slashIndex === -1 || /^[0-9]+$/.test(entry.substr(slashIndex + 1))));
+    });
+    if (!valid) {
+        throw config.configError("trustProxy", "must be a number of proxies or a comma-separated list of proxy " + 
+            "addresses, such as \"loopback, 10.0.0.0/8\".");
+    }
+    return value;
+}
+
+// "rateLimits" is null to disable rate limiting.  Otherwise, each category is either {maxRequests, windowSeconds} or
+// null to leave that category unlimited, and defaults to the limits in DEFAULT_RATE_LIMITS.
+function getRateLimits(root: config.ConfigReader): api.RateLimitConfiguration {
+    if (root.isNull("rateLimits")) {
+        return null;
+    }
+    const section = root.getOptionalSection("rateLimits");
+    const getRateLimit = (category: string, defaultValue: api.RateLimit): api.RateLimit => {
+        if (section.isNull(category)) {
+            return null;
+        } else if (!section.has(category)) {
+            return defaultValue;
+        }
+        const limitSection = section.getSection(category);
+        const limit = {
+            maxRequests: limitSection.getInteger("maxRequests", 1),
+            windowSeconds: limitSection.getInteger("windowSeconds", 1)
+        };
+        limitSection.checkUnusedKeys();
+        return limit;
+    };
+    const rateLimits = {
+        read: getRateLimit("read", DEFAULT_RATE_LIMITS.read),
+        write: getRateLimit("write", DEFAULT_RATE_LIMITS.write),
+        post: getRateLimit("post", DEFAULT_RATE_LIMITS.post),
+        message: getRateLimit("message", DEFAULT_RATE_LIMITS.message)
+    };
+    section.checkUnusedKeys();
+    return rateLimits;
+}
@@ -0,0 +1,105 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as config from "./index";
+import * as connectors from "../connectors/index";
+import * as spec from "../spec/index";
+
+const ACCESS_LEVELS = ["user", "moderator", "administrator"]; // indexed by spec.UserAccessLevel
+
+// Creates a registry containing the connectors that come with WebChatty:
+//   "memory" (every kind), "sqlite" (account, clientData, message, thread, story) and "shacknews" (message, thread,
+//   search).
+// The SQLite connectors share the database named by the top-level "sqlite" section, and the Shacknews connectors
+// share the MySQL connection described by the top-level "shacknews" section.
+export function createStandardConnectorRegistry(): config.ConnectorRegistry {
+    const registry = new config.ConnectorRegistry();
+    
+    registry.register(config.ConnectorKind.Account, "memory", (options, context) => 
+        new connectors.MemoryAccountConnector(readAccounts(options, context)));
+    registry.register(config.ConnectorKind.ClientData, "memory", () => new connectors.MemoryClientDataConnector());
+    registry.register(config.ConnectorKind.Lol, "memory", () => new connectors.MemoryLolConnector());
+    registry.register(config.ConnectorKind.Message, "memory", () => new connectors.MemoryMessageConnector());
+    registry.register(config.ConnectorKind.Notification, "memory", 
+        () => new connectors.MemoryNotificationConnector());
+    registry.register(config.ConnectorKind.Thread, "memory", () => new connectors.MemoryThreadConnnector());
+    registry.register(config.ConnectorKind.Search, "memory", options => new connectors.MemorySearchConnector({
+        maxPosts: options.getOptionalInteger("maxPosts", 51000, 1),
+        prunePosts: options.getOptionalInteger("prunePosts", 50000, 1),
+        snapshotFilePath: options.getNullableString("snapshotFilePath", null),
+        snapshotIntervalMinutes: options.getOptionalInteger("snapshotIntervalMinutes", 10, 1)
+    }));
+    registry.register(config.ConnectorKind.Story, "memory", () => new connectors.MemoryStoryConnector());
+    
+    // the "admin" account and any others are only created when the database is new
+    registry.register(config.ConnectorKind.Account, "sqlite", (options, context) => 
+        new connectors.SqliteAccountConnector(getSqliteCommon(context), readAccounts(options, context)));
+    registry.register(config.ConnectorKind.ClientData, "sqlite", (options, context) => 
+        new connectors.SqliteClientDataConnector(getSqliteCommon(context)));
+    registry.register(config.ConnectorKind.Message, "sqlite", (options, context) => 
+        new connectors.SqliteMessageConnector(getSqliteCommon(context)));
+    registry.register(config.ConnectorKind.Thread, "sqlite", (options, context) => 
+        new connectors.SqliteThreadConnector(getSqliteCommon(context)));
+    registry.register(config.ConnectorKind.Story, "sqlite", (options, context) => 
+        new connectors.SqliteStoryConnector(getSqliteCommon(context)));
+    
+    registry.register(config.ConnectorKind.Message, "shacknews", (options, context) => 
+        new connectors.ShacknewsMessageConnector(getShacknewsCommon(context)));
+    registry.register(config.ConnectorKind.Thread, "shacknews", (options, context) => 
+        new connectors.ShacknewsThreadConnector(getShacknewsCommon(context), {
+            pollingIntervalMsec: options.getOptionalInteger("pollingIntervalMsec", 2000, 100)
+        }));
+    registry.register(config.ConnectorKind.Search, "shacknews", (options, context) => 
+        new connectors.ShacknewsSearchConnector(getShacknewsCommon(context)));
+    
+    return registry;
+}
+
+// "accounts" is a list of {username, password, level, registrationDate}.  The level is "user", "moderator" or
+// "administrator" and defaults to "user".  The registration date defaults to now.
+function readAccounts(options: config.ConfigReader, context: config.ConnectorContext)
+        : connectors.MemoryUserAccount[] {
+    return options.getOptionalSectionList("accounts").map(section => {
+        const account: connectors.MemoryUserAccount = {
+            username: section.getString("username"),
+            password: section.getString("password"),
+            level: section.has("level") ? <spec.UserAccessLevel>section.getChoice("level", ACCESS_LEVELS) 
+                : spec.UserAccessLevel.User,
+            registrationDate: section.getOptionalDate("registrationDate", context.clock.now())
+        };
+        section.checkUnusedKeys();
+        return account;
+    });
+}
+
+function getSqliteCommon(context: config.ConnectorContext): connectors.SqliteCommon {
+    return context.getShared("sqlite", 
+        options => new connectors.SqliteCommon(options.getString("databaseFilePath")), 
+        common => common.close());
+}
+
+function getShacknewsCommon(context: config.ConnectorContext): connectors.ShacknewsCommon {
+    return context.getShared("shacknews", options => new connectors.ShacknewsCommon(
+        options.getString("hostname"),
+        options.getInteger("port", 1, 65535),
+        options.getString("username"),
+        options.getString("password"),
+        options.getString("database")),
+        common => common.close());
+}
@@ -0,0 +1,53 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as config from "./index";
+
+const variableRegEx = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// Resolves a deep copy of 'obj' (parsed from a configuration file) in which each "${NAME}" inside a string has been 
+// replaced with the value of the environment variable NAME, or with 'fallback' for "${NAME:-fallback}" if the
+// variable isn't set.  Throws an ERR_CONFIG error if a variable without a fallback isn't set.  "$${" is a literal "${".
+export function interpolateEnvironment(obj: any, env: { [name: string]: string }, path?: string): any {
+    if (typeof path === "undefined") {
+        path = "";
+    }
+    
+    if (typeof obj === "string") {
+        return (<string>obj).split("$${").map(part => part.replace(variableRegEx, 
+            (match: string, name: string, fallback: string) => {
+                if (env.hasOwnProperty(name)) {
+                    return env[name];
+                } else if (typeof fallback !== "undefined") {
+                    return fallback;
+                } else {
+                    throw config.configError(path, "uses the environment variable \"" + name + 
+                        "\", which must be provided.");
+                }
+            })).join("${");
+    } else if (Array.isArray(obj)) {
+        return (<any[]>obj).map((x, i) => interpolateEnvironment(x, env, path + "[" + i + "]"));
+    } else if (obj !== null && typeof obj === "object") {
+        return lodash.mapValues(obj, (x: any, key: string) => 
+            interpolateEnvironment(x, env, path === "" ? key : path + "." + key));
+    } else {
+        return obj;
+    }
+}
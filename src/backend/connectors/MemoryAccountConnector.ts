@@ -30,7 +30,9 @@ export class MemoryUserAccount {
 }
 
 export class MemoryAccountConnector implements spec.IAccountConnector {
+    private _server: api.Server;
     private _accounts: Dictionary<string, MemoryUserAccount>;
+    private _bans = new Dictionary<string, spec.BanRecord>(); // lowercase username -> ban, possibly expired
     
     constructor(initialAccounts: MemoryUserAccount[]) {
         this._accounts = Dictionary.fromArray(initialAccounts, x => x.username, x => x);
@@ -38,12 +40,17 @@ export class MemoryAccountConnector implements spec.IAccountConnector {
     
     // Called by the server at startup to provide the connector with a reference to the server instance.
     public injectServer(server: api.Server): void {
+        this._server = server;
     }
     
     // Called when the server is about to start listening for requests.
     public async start(): Promise<void> {
     }
     
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
     // Resolves a token on successful login.  Resolves null if the username/password are wrong.  Rejects if a problem
     // occurs other than the username/password being wrong.
     public async tryLogin(username: string, password: string): Promise<spec.UserCredentials> {
@@ -63,6 +70,20 @@ export class MemoryAccountConnector implements spec.IAccountConnector {
         return this._accounts.keys().some(x => x.toLowerCase() === usernameLower);
     }
     
+    // Adds a new account.  Rejects with ERR_ARGUMENT if the username is already taken (case insensitive).
+    public async createAccount(username: string, password: string, level: spec.UserAccessLevel, 
+            registrationDate: Date): Promise<void> {
+        if (await this.userExists(username)) {
+            return Promise.reject<void>(spec.apiError("ERR_ARGUMENT", "The username is already taken."));
+        }
+        this._accounts.set(username, {
+            username: username,
+            password: password,
+            level: level,
+            registrationDate: registrationDate
+        });
+    }
+    
     // Resolves a mapping of usernames to registration dates on success.  If usernames is not provided, then all users
     // are returned.  If a provided username does not exist, then it is silently omitted from the results.
     public async getUserRegistrationDates(usernames?: string[]): Promise<Dictionary<string, Date>> {
@@ -81,8 +102,59 @@ export class MemoryAccountConnector implements spec.IAccountConnector {
         }
     }
     
-    // Resolves true if the username exists and the user is banned.  Resolves false otherwise.
-    public async isUserBanned(username: string): Promise<boolean> {
-        return false;
+    // Resolves the user's ban if the username exists and the user is currently banned.  Resolves null otherwise.
+    // Bans that have expired are not returned.
+    public async getActiveBan(username: string): Promise<spec.BanRecord> {
+        const ban = this._bans.lookup(username.toLowerCase(), null);
+        return ban !== null && isBanActive(ban, this._server.clock.now()) ? ban : null;
+    }
+    
+    // Resolves all bans that are currently in effect, in no particular order.
+    public async getActiveBans(): Promise<spec.BanRecord[]> {
+        const now = this._server.clock.now();
+        return this._bans.values().filter(x => isBanActive(x, now));
     }
+    
+    // Moderator-only action that bans a user, replacing any ban that the user already has.  The caller has verified 
+    // that the user is a moderator and that the banned user exists.  'expirationDate' is null for a permanent ban.
+    // The account connector must arrange for the BanChange event to be sent.
+    public async banUser(credentials: spec.UserCredentials, username: string, reason: string, expirationDate: Date)
+            : Promise<spec.BanRecord> {
+        const ban: spec.BanRecord = {
+            username: username,
+            moderator: credentials.username,
+            reason: reason,
+            startDate: this._server.clock.now(),
+            expirationDate: expirationDate
+        };
+        this._bans.set(username.toLowerCase(), ban);
+        
+        await this._server.dispatcher.sendEvent(spec.EventType.BanChange, {
+            username: username,
+            isBanned: true,
+            reason: reason,
+            expirationDate: expirationDate
+        });
+        return ban;
+    }
+    
+    // Moderator-only action that lifts a user's ban.  The caller has verified that the user is a moderator.  If the
+    // user is not banned, then nothing happens.  Otherwise, the account connector must arrange for the BanChange 
+    // event to be sent.
+    public async unbanUser(credentials: spec.UserCredentials, username: string): Promise<void> {
+        const ban = await this.getActiveBan(username);
+        this._bans.remove(username.toLowerCase());
+        if (ban !== null) {
+            await this._server.dispatcher.sendEvent(spec.EventType.BanChange, {
+                username: ban.username,
+                isBanned: false,
+                reason: null,
+                expirationDate: null
+            });
+        }
+    }
+}
+
+function isBanActive(ban: spec.BanRecord, now: Date): boolean {
+    return ban.expirationDate === null || ban.expirationDate.getTime() > now.getTime();
 }
@@ -46,6 +46,10 @@ export class MemoryClientDataConnector implements spec.IClientDataConnector {
     public async start(): Promise<void> {
     }
     
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
     // Resolves a list of moderation flags that the user has selected to show.  If the user has never set flag filters,
     // then a default set of filters are returned.
     public async getModerationFlagFilters(username: string): Promise<spec.ModerationFlag[]> {
@@ -78,6 +82,7 @@ export class MemoryClientDataConnector implements spec.IClientDataConnector {
     public async setMarkedPost(username: string, postId: number, type: spec.MarkedPostType): Promise<boolean> {
         const list = await this.getMarkedPosts(username);
         list.set(postId, type);
+        this._markedPosts.set(username.toLowerCase(), list); // getMarkedPosts() may have returned a new dictionary
         return true;
     }
     
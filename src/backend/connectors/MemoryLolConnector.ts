@@ -0,0 +1,76 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import { Dictionary, DictionaryWithDefault, Set } from "../collections/index";
+
+export class MemoryLolConnector implements spec.ILolConnector {
+    private _server: api.Server;
+    private _taggers = new DictionaryWithDefault<{postId: number, tag: spec.LolTag}, Set<string>>(
+        () => new Set<string>()); // {post id, tag} => lowercase usernames
+    
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+    }
+    
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
+    // Tags the post on behalf of the user.  If the user has already applied this tag to the post, then nothing 
+    // happens.  If the count changes, the connector must report the new count by calling
+    // dispatcher.queueLolCountUpdate().
+    public async tagPost(credentials: spec.UserCredentials, postId: number, tag: spec.LolTag): Promise<void> {
+        const taggers = this._taggers.get({postId: postId, tag: tag});
+        if (taggers.add(credentials.username.toLowerCase())) {
+            this._server.dispatcher.queueLolCountUpdate(postId, tag.toString(), taggers.count());
+        }
+    }
+    
+    // Removes the user's tag from the post.  If the user has not applied this tag to the post, then nothing happens.
+    // If the count changes, the connector must report the new count by calling dispatcher.queueLolCountUpdate().
+    public async untagPost(credentials: spec.UserCredentials, postId: number, tag: spec.LolTag): Promise<void> {
+        const key = {postId: postId, tag: tag};
+        const taggers = this._taggers.get(key);
+        if (taggers.remove(credentials.username.toLowerCase())) {
+            this._server.dispatcher.queueLolCountUpdate(postId, tag.toString(), taggers.count());
+        }
+        if (taggers.count() === 0) {
+            this._taggers.remove(key);
+        }
+    }
+    
+    // Gets the nonzero tag counts for the specified posts, in no particular order.  Posts without any tags are 
+    // silently omitted.
+    public async getLolCounts(postIds: number[]): Promise<spec.PostLolCount[]> {
+        const idSet = Set.fromArray(postIds, x => x);
+        return lodash
+            .chain(this._taggers.pairs())
+            .filter(x => idSet.contains(x.key.postId) && x.value.count() > 0)
+            .map(x => ({ postId: x.key.postId, tag: x.key.tag.toString(), count: x.value.count() }))
+            .value();
+    }
+}
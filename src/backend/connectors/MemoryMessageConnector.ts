@@ -39,6 +39,10 @@ export class MemoryMessageConnector implements spec.IMessageConnector {
     public async start(): Promise<void> {
     }
     
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
     // Gets a range of messages in the user’s inbox or sent mailbox.  May return fewer than 'take' messages.
     public async getMessages(credentials: spec.UserCredentials, folder: spec.Mailbox, drop: number, take: number)
             : Promise<spec.Message[]> {
@@ -52,7 +56,7 @@ export class MemoryMessageConnector implements spec.IMessageConnector {
         const messages = this.getFolderMessages(credentials, folder);
         return { 
             total: messages.count(), 
-            unread: lodash.where(messages.values(), (x: spec.Message) => x.unread).length 
+            unread: lodash.filter(messages.values(), x => x.unread).length 
         };
     }
     
@@ -63,7 +67,7 @@ export class MemoryMessageConnector implements spec.IMessageConnector {
             from: credentials.username,
             to: recipient,
             subject: subject,
-            date: new Date(),
+            date: this._server.clock.now(),
             body: body,
             unread: true
         };
@@ -0,0 +1,288 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as util from "util";
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import { Dictionary } from "../collections/index";
+
+// registerNotifierClient() needs no login, so the unattached clients are capped.  once there are this many, registering
+// another evicts the one that was registered the longest ago.
+const MAX_UNATTACHED_CLIENTS = 1000;
+
+interface INotificationWaiter {
+    expirationMsec: number;
+    resolve(notifications: spec.Notification[]): void;
+}
+
+class MemoryNotificationClient {
+    id: string;
+    name: string;
+    username: string; // null if the client is not attached to an account
+    queue: spec.Notification[];
+    waiter: INotificationWaiter; // null if the client is not currently waiting
+}
+
+export class MemoryNotificationConnector implements spec.INotificationConnector {
+    private _server: api.Server;
+    private _clients = new Dictionary<string, MemoryNotificationClient>(); // client id -> client
+    private _setups = new Dictionary<string, spec.NotificationUserSetup>(); // lowercase username -> setup
+    private _unattachedClientIds: string[] = []; // oldest registration first
+    private _expirationTimer: NodeJS.Timer = null;
+
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+        server.dispatcher.newEventSignal.addHandler(async (event) => {
+            await this.onNewEvent(event);
+        });
+
+        // every 2.5 seconds, expire the waitForNotification() callers that have been waiting for 20 seconds.  they
+        // receive an empty list of notifications and are expected to call again.
+        this._expirationTimer = setInterval(() => {
+            const now = this._server.clock.now().getTime();
+            this._clients.values().forEach(client => {
+                if (client.waiter !== null && client.waiter.expirationMsec <= now) {
+                    this.resolveWaiter(client);
+                }
+            });
+        }, 2500);
+        this._expirationTimer.unref();
+    }
+
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+    }
+
+    // Called when the server is shutting down.  The waitForNotification() callers receive what has queued up so far.
+    public async stop(): Promise<void> {
+        if (this._expirationTimer !== null) {
+            clearInterval(this._expirationTimer);
+            this._expirationTimer = null;
+        }
+        this._clients.values().forEach(client => {
+            if (client.waiter !== null) {
+                this.resolveWaiter(client);
+            }
+        });
+    }
+
+    // Registers a simple notifier client that is not yet attached to an account.  If the client ID is already
+    // registered, then nothing happens.
+    public async registerNotifierClient(clientId: string, name: string): Promise<void> {
+        const client = this.getOrCreateClient(clientId, name);
+        if (client.username === null) {
+            this.trackUnattachedClient(clientId);
+        }
+    }
+
+    // Attaches a registered simple notifier client to the given account, replacing any account that it was previously
+    // attached to.  Rejects with ERR_UNKNOWN_CLIENT_ID if the client ID is not registered.
+    public async attachAccount(clientId: string, username: string): Promise<void> {
+        const client = await this.getClient(clientId);
+        this.attachClient(client, username);
+    }
+
+    // Registers a rich client (if it isn't already registered) and attaches it to the given account, replacing any
+    // account that it was previously attached to.
+    public async registerRichClient(clientId: string, name: string, username: string): Promise<void> {
+        const client = this.getOrCreateClient(clientId, name);
+        client.name = name;
+        this.attachClient(client, username);
+    }
+
+    // Detaches the client from the given account.  Rejects with ERR_UNKNOWN_CLIENT_ID if the client ID is not
+    // registered.  If the client is not attached to this account, then nothing happens.
+    public async detachAccount(clientId: string, username: string): Promise<void> {
+        const client = await this.getClient(clientId);
+        if (client.username !== null && client.username.toLowerCase() === username.toLowerCase()) {
+            client.username = null;
+            client.queue = [];
+            if (client.waiter !== null) {
+                this.resolveWaiter(client);
+            }
+            this.trackUnattachedClient(clientId);
+        }
+    }
+
+    // Resolves the notifications that have queued up for this client.  If none are queued, then waits until one
+    // arrives or until 20 seconds pass, in which case an empty list is resolved.
+    // Rejects with ERR_UNKNOWN_CLIENT_ID or ERR_CLIENT_NOT_ASSOCIATED.
+    public async waitForNotification(clientId: string): Promise<spec.Notification[]> {
+        const client = await this.getClient(clientId);
+        if (client.username === null) {
+            return Promise.reject<spec.Notification[]>(spec.apiError("ERR_CLIENT_NOT_ASSOCIATED",
+                "This client is not attached to an account."));
+        }
+
+        // a client should only have one request in flight, but if it has another then cut the older one loose
+        if (client.waiter !== null) {
+            this.resolveWaiter(client);
+        }
+
+        if (client.queue.length > 0) {
+            const notifications = client.queue;
+            client.queue = [];
+            return notifications;
+        }
+
+        return new Promise<spec.Notification[]>((resolve, reject) => {
+            client.waiter = {
+                expirationMsec: this._server.clock.now().getTime() + 20000, // 20 seconds
+                resolve: resolve
+            };
+        });
+    }
+
+    // Resolves the user's notification setup.  If the user has never saved a setup, then all triggers are disabled.
+    public async getUserSetup(username: string): Promise<spec.NotificationUserSetup> {
+        const defaultSetup: spec.NotificationUserSetup = {
+            triggerOnReply: false,
+            triggerOnMention: false,
+            triggerKeywords: []
+        };
+        return this._setups.lookup(username.toLowerCase(), defaultSetup);
+    }
+
+    // Overwrites the user's notification setup.  This affects all clients attached to the account.
+    public async setUserSetup(username: string, setup: spec.NotificationUserSetup): Promise<void> {
+        this._setups.set(username.toLowerCase(), setup);
+    }
+
+    private async getClient(clientId: string): Promise<MemoryNotificationClient> {
+        const client = this._clients.lookup(clientId, null);
+        if (client === null) {
+            return Promise.reject<MemoryNotificationClient>(spec.apiError("ERR_UNKNOWN_CLIENT_ID",
+                "The client ID is not registered."));
+        } else {
+            return client;
+        }
+    }
+
+    private getOrCreateClient(clientId: string, name: string): MemoryNotificationClient {
+        var client = this._clients.lookup(clientId, null);
+        if (client === null) {
+            client = {
+                id: clientId,
+                name: name,
+                username: null,
+                queue: [],
+                waiter: null
+            };
+            this._clients.set(clientId, client);
+        }
+        return client;
+    }
+
+    private attachClient(client: MemoryNotificationClient, username: string): void {
+        if (client.username === null || client.username.toLowerCase() !== username.toLowerCase()) {
+            client.username = username;
+            client.queue = [];
+        }
+        lodash.pull(this._unattachedClientIds, client.id);
+    }
+
+    // evicts the oldest unattached clients once there are too many.  re-registering moves a client to the back.
+    private trackUnattachedClient(clientId: string): void {
+        lodash.pull(this._unattachedClientIds, clientId);
+        this._unattachedClientIds.push(clientId);
+        while (this._unattachedClientIds.length > MAX_UNATTACHED_CLIENTS) {
+            this._clients.remove(this._unattachedClientIds.shift());
+        }
+    }
+
+    // sends the client's queued notifications (possibly none) to its waiting waitForNotification() caller.
+    private resolveWaiter(client: MemoryNotificationClient): void {
+        const waiter = client.waiter;
+        const notifications = client.queue;
+        client.waiter = null;
+        client.queue = [];
+        waiter.resolve(notifications);
+    }
+
+    private async onNewEvent(event: spec.Event): Promise<void> {
+        if (event.eventType !== spec.EventType.NewPost) {
+            return;
+        }
+
+        const eventData = <spec.NewPostEventData>event.eventData;
+        const post = eventData.post;
+        const text = spec.stripHtmlTags(post.body.replace(/</g, " <")).replace(/\s+/g, " ").trim();
+        const lcText = text.toLowerCase();
+        const lcAuthor = post.author.toLowerCase();
+        const lcParentAuthor = eventData.parentAuthor.toLowerCase();
+
+        // one notification per user, even if the post trips several of the user's triggers
+        this._setups.pairs().forEach(pair => {
+            const lcUsername = pair.key;
+            const setup = pair.value;
+            if (lcUsername === lcAuthor) {
+                return;
+            }
+
+            var subject: string = null;
+            if (setup.triggerOnReply && lcUsername === lcParentAuthor) {
+                subject = "Reply from " + post.author;
+            } else if (setup.triggerOnMention && containsWord(lcText, lcUsername)) {
+                subject = "Mentioned by " + post.author;
+            } else {
+                const keyword = lodash.find(setup.triggerKeywords, x => lcText.indexOf(x.toLowerCase()) !== -1);
+                if (typeof keyword !== "undefined") {
+                    subject = util.format("Post by %s containing \"%s\"", post.author, keyword);
+                }
+            }
+
+            if (subject !== null) {
+                this.notifyUser(lcUsername, {
+                    subject: subject,
+                    body: text,
+                    postId: post.id,
+                    threadId: post.threadId
+                });
+            }
+        });
+    }
+
+    private notifyUser(lcUsername: string, notification: spec.Notification): void {
+        this._clients.values().forEach(client => {
+            if (client.username !== null && client.username.toLowerCase() === lcUsername) {
+                client.queue.push(notification);
+                if (client.waiter !== null) {
+                    this.resolveWaiter(client);
+                }
+            }
+        });
+    }
+}
+
+// true if 'word' appears in 'text' with no letters, digits or underscores on either side.
+function containsWord(text: string, word: string): boolean {
+    const isWordChar = (ch: string) => /[a-z0-9_]/i.test(ch);
+    var index = text.indexOf(word);
+    while (index !== -1) {
+        const before = index === 0 ? "" : text.charAt(index - 1);
+        const after = text.charAt(index + word.length);
+        if (!isWordChar(before) && !isWordChar(after)) {
+            return true;
+        }
+        index = text.indexOf(word, index + 1);
+    }
+    return false;
+}
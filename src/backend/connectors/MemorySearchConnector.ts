@@ -17,6 +17,7 @@
 /// <reference path="../../../typings/tsd.d.ts" />
 "use strict";
 
+import * as fs from "fs";
 import * as lodash from "lodash";
 import * as api from "../api/index";
 import * as spec from "../spec/index";
@@ -27,24 +28,150 @@ export interface MemorySearchConnectorOptions {
     // suggested: 51000
     maxPosts: number;
     
-    // when MAX_SEARCH_POSTS has been hit, then remove all but the newest PRUNE_SEARCH_POSTS posts.
+    // when MAX_SEARCH_POSTS has been hit, then remove all but the newest PRUNE_SEARCH_POSTS posts.  a rebuild also
+    // loads this many posts.
     // suggested: 50000
     prunePosts: number;
+    
+    // the index is saved to this file periodically and when the server stops, and loaded from it at startup so that
+    // only the posts made since the last save need to be indexed.  null to always rebuild the index at startup.
+    snapshotFilePath: string;
+    
+    // how often to save the snapshot, if snapshotFilePath is set.
+    // suggested: 10
+    snapshotIntervalMinutes: number;
 }
 
-export class MemorySearchConnector implements spec.ISearchConnector {
-    private _server: api.Server;
-    private _options: MemorySearchConnectorOptions;
-    
-    private _posts = new Dictionary<number, spec.HtmlPost>();
-    private _postsByStem = new DictionaryWithDefault<string, Set<number>>(
+// the snapshot is discarded at startup if this doesn't match, e.g. after a change to how words are stemmed
+const SNAPSHOT_VERSION = 2;
+
+interface ISearchIndexSnapshot {
+    version: number;
+    lastRebuildDate: Date;
+    posts: { post: spec.HtmlPost, parentAuthor: string, stems: { stem: string, count: number }[] }[];
+}
+
+// posts are fetched from the thread connector and indexed in batches of this size, and the event loop gets a turn in
+// between so that requests are still served during a rebuild.
+const REBUILD_BATCH_SIZE = 1000;
+
+class SearchIndex {
+    public posts = new Dictionary<number, spec.HtmlPost>();
+    public postsByStem = new DictionaryWithDefault<string, Set<number>>(
         () => new Set<number>()); // word stem => post IDs
-    private _postsByAuthor = new DictionaryWithDefault<string, Set<number>>(
+    public postsByAuthor = new DictionaryWithDefault<string, Set<number>>(
         () => new Set<number>()); // lowercase author => post IDs
-    private _postsByParentAuthor = new DictionaryWithDefault<string, Set<number>>(
+    public postsByParentAuthor = new DictionaryWithDefault<string, Set<number>>(
         () => new Set<number>()); // lowercase parent author => post IDs
-    private _postsByCategory = new DictionaryWithDefault<spec.ModerationFlag, Set<number>>(
+    public postsByCategory = new DictionaryWithDefault<spec.ModerationFlag, Set<number>>(
         () => new Set<number>()); // mod flag => post IDs
+    public postsByThread = new DictionaryWithDefault<number, Set<number>>(
+        () => new Set<number>()); // thread ID => post IDs
+    private _parentAuthors = new Dictionary<number, string>(); // post ID => lowercase parent author
+    private _stemCounts = new Dictionary<number, Dictionary<string, number>>(); // post ID => word stem => occurrences
+    
+    public add(newPost: spec.HtmlPost, parentAuthor: string): void {
+        const stemCounts = new Dictionary<string, number>();
+        getWordStems(newPost).forEach(stem => {
+            stemCounts.set(stem, stemCounts.lookup(stem, 0) + 1);
+        });
+        this.addWithStems(newPost, parentAuthor.toLowerCase(), stemCounts);
+    }
+    
+    // the number of times the word stem appears in the post, or 0 if the post is not in the index.
+    public getStemCount(postId: number, stem: string): number {
+        const stemCounts = this._stemCounts.lookup(postId, null);
+        return stemCounts === null ? 0 : stemCounts.lookup(stem, 0);
+    }
+    
+    // removes the post from each of the indices that add() put it in.  does nothing if the post is not in the index.
+    public remove(postId: number): void {
+        const post = this.posts.lookup(postId, null);
+        if (post === null) {
+            return;
+        }
+        
+        this._stemCounts.get(postId).keys().forEach(stem => {
+            removeFromSet(this.postsByStem, stem, postId);
+        });
+        
+        removeFromSet(this.postsByAuthor, post.author.toLowerCase(), postId);
+        removeFromSet(this.postsByParentAuthor, this._parentAuthors.get(postId), postId);
+        removeFromSet(this.postsByCategory, post.category, postId);
+        removeFromSet(this.postsByThread, post.threadId, postId);
+        this._parentAuthors.remove(postId);
+        this._stemCounts.remove(postId);
+        this.posts.remove(postId);
+    }
+    
+    // returns false if the post is not in the index.
+    public setCategory(postId: number, category: spec.ModerationFlag): boolean {
+        const post = this.posts.lookup(postId, null);
+        if (post === null) {
+            return false;
+        }
+        removeFromSet(this.postsByCategory, post.category, post.id);
+        post.category = category;
+        this.postsByCategory.get(post.category).add(post.id);
+        return true;
+    }
+    
+    // each post's word stem counts are saved because computing them is the slow part of adding a post.  the other
+    // indices are quick to recreate from the posts.
+    public toSnapshot(lastRebuildDate: Date): ISearchIndexSnapshot {
+        return {
+            version: SNAPSHOT_VERSION,
+            lastRebuildDate: lastRebuildDate,
+            posts: this.posts.values().map(x => ({
+                post: x,
+                parentAuthor: this._parentAuthors.get(x.id),
+                stems: this._stemCounts.get(x.id).pairs().map(y => ({ stem: y.key, count: y.value }))
+            }))
+        };
+    }
+    
+    public static fromSnapshot(snapshot: ISearchIndexSnapshot): SearchIndex {
+        const index = new SearchIndex();
+        snapshot.posts.forEach(x => {
+            const stemCounts = new Dictionary<string, number>();
+            x.stems.forEach(y => stemCounts.set(y.stem, y.count));
+            x.post.date = new Date(<any>x.post.date);
+            index.addWithStems(x.post, x.parentAuthor, stemCounts);
+        });
+        return index;
+    }
+    
+    // the parent author must already be lowercase.
+    private addWithStems(newPost: spec.HtmlPost, parentAuthor: string, stemCounts: Dictionary<string, number>): void {
+        this.posts.set(newPost.id, newPost);
+        this._parentAuthors.set(newPost.id, parentAuthor);
+        this._stemCounts.set(newPost.id, stemCounts);
+        
+        stemCounts.keys().forEach(stem => {
+            this.postsByStem.get(stem).add(newPost.id);
+        });
+        
+        this.postsByAuthor.get(newPost.author.toLowerCase()).add(newPost.id);
+        this.postsByParentAuthor.get(parentAuthor).add(newPost.id);
+        this.postsByCategory.get(newPost.category).add(newPost.id);
+        this.postsByThread.get(newPost.threadId).add(newPost.id);
+    }
+}
+
+export class MemorySearchConnector implements spec.ISearchConnector {
+    private _server: api.Server;
+    private _options: MemorySearchConnectorOptions;
+    private _index = new SearchIndex();
+    
+    // while a rebuild is running, new events are applied to both the live index and the one being built.  category 
+    // changes to posts that the rebuild has fetched but not yet indexed are remembered until they are indexed.
+    private _rebuildPromise: Promise<void> = null;
+    private _rebuildIndex: SearchIndex = null;
+    private _rebuildCategoryChanges = new Dictionary<number, spec.ModerationFlag>();
+    private _rebuildProgress = 1;
+    private _lastRebuildDate: Date = null;
+    private _snapshotTimer: NodeJS.Timer = null;
+    private _snapshotPromise: Promise<void> = null;
     
     constructor(options: MemorySearchConnectorOptions) {
         if (options.prunePosts >= options.maxPosts) {
@@ -64,150 +191,388 @@ export class MemorySearchConnector implements spec.ISearchConnector {
     
     // Called when the server is about to start listening for requests.
     public async start(): Promise<void> {
-        // this may take some time so make a note of it in the log output
-        this._server.log("status", "MemorySearchConnector: Loading initial posts...");
+        if (this._options.snapshotFilePath === null) {
+            // preload the newest posts
+            await this.rebuildIndex();
+            return;
+        }
         
-        // preload the newest posts
-        const newestPostId = await this._server.threadConnector.getNewestPostId();
-        if (newestPostId > 0) {
-            const posts = await this._server.threadConnector.getPostRange(newestPostId, this._options.maxPosts, true);
-            const postsDict = Dictionary.fromArray(posts, x => x.id, x => x);
-            
-            for (var i = 0; i < posts.length; i++) {
-                const post = posts[i];
-                const parentPost = postsDict.lookup(post.parentId, null);
-                const event = {
-                    eventId: 0,
-                    eventDate: new Date(),
-                    eventType: spec.EventType.NewPost,
-                    eventData: <spec.NewPostEventData>{
-                        parentAuthor: parentPost === null ? "" : parentPost.author,
-                        post: spec.postToHtml(post),
-                        postId: post.id
-                    }
-                }
-                await this.onNewEvent(event);
-            }
+        const loaded = await this.loadSnapshot();
+        if (!loaded || !(await this.catchUp())) {
+            await this.rebuildIndex();
         }
         
-        this._server.log("status", "MemorySearchConnector: Ready.");
+        this._snapshotTimer = setInterval(() => {
+            this.saveSnapshot().catch(ex => {
+                this._server.log("critical", "MemorySearchConnector: Failed to save the snapshot: " + ex.toString());
+            });
+        }, this._options.snapshotIntervalMinutes * 60000);
+        this._snapshotTimer.unref();
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+        if (this._snapshotTimer !== null) {
+            clearInterval(this._snapshotTimer);
+            this._snapshotTimer = null;
+            await this.saveSnapshot();
+        }
     }
     
-    // Comment search. At least one of [terms, author, parentAuthor, category] will be provided and the others are null 
-    // (caller verified).
-    public async search(terms: string, author: string, parentAuthor: string, category: spec.ModerationFlag, 
-            offset: number, limit: number, oldestFirst: boolean): Promise<spec.HtmlPost[]> {
-        const resultSets: Set<number>[] = [];
+    // Comment search. At least one of [terms, author, parentAuthor, category, threadId] will be provided and the other
+    // filters may be null (caller verified).  If only 'terms' is provided, then it has at least one group (caller 
+    // verified).  Nuked posts are never included.
+    public async search(params: spec.SearchParameters): Promise<spec.SearchResults> {
+        const index = this._index;
+        const terms = params.terms;
+        const resultSets: number[][] = []; // the results are the posts in every one of these
         
         if (terms !== null) {
-            while (terms.indexOf("  ") !== -1) {
-                terms = terms.replace("  ", " ");
-            }
-            const words = terms.split(" ");
-            const stems = lodash.chain(words).map(x => spec.getWordStem(x)).union().value();
-            stems.forEach(stem => {
-                resultSets.push(this._postsByStem.get(stem));
+            terms.groups.forEach(group => {
+                resultSets.push(lodash.union.apply(lodash, group.map(x => this.findTerm(index, x))));
             });
         }
         
-        if (author !== null) {
-            const lcAuthor = author.toLowerCase()
-            resultSets.push(this._postsByAuthor.get(lcAuthor));
+        if (params.author !== null) {
+            resultSets.push(findPostIds(index.postsByAuthor, params.author.toLowerCase()));
+        }
+        
+        if (params.parentAuthor !== null) {
+            resultSets.push(findPostIds(index.postsByParentAuthor, params.parentAuthor.toLowerCase()));
         }
         
-        if (parentAuthor !== null) {
-            const lcParentAuthor = parentAuthor.toLowerCase()
-            resultSets.push(this._postsByParentAuthor.get(lcParentAuthor));
+        if (params.category !== null) {
+            resultSets.push(findPostIds(index.postsByCategory, params.category));
         }
         
-        if (category !== null) {
-            resultSets.push(this._postsByCategory.get(category));
+        if (params.threadId !== null) {
+            resultSets.push(findPostIds(index.postsByThread, params.threadId));
         }
         
         if (resultSets.length === 0) {
-            return [];
+            return { posts: [], totalCount: 0 };
         }
         
-        const sortedResultSets = lodash.sortBy(resultSets, x => x.count());
-        var results = sortedResultSets[0].keys();
+        const sortedResultSets = lodash.sortBy(resultSets, x => x.length);
+        var results = sortedResultSets[0];
         for (var i = 1; i < sortedResultSets.length; i++) {
-            results = lodash.intersection(results, sortedResultSets[i].keys());
+            results = lodash.intersection(results, sortedResultSets[i]);
+        }
+        
+        if (terms !== null) {
+            terms.exclusions.forEach(term => {
+                results = lodash.difference(results, this.findTerm(index, term));
+            });
+        }
+        
+        const after = params.after === null ? null : params.after.getTime();
+        const before = params.before === null ? null : params.before.getTime();
+        const posts = results
+            .map(x => index.posts.get(x))
+            .filter(x => x.category !== spec.ModerationFlag.Nuked
+                && (after === null || x.date.getTime() >= after)
+                && (before === null || x.date.getTime() < before));
+        
+        const scores = params.sort === spec.SearchSort.Relevance 
+            ? this.getRelevanceScores(index, posts.map(x => x.id), terms) : new Dictionary<number, number>();
+        
+        return {
+            posts: lodash
+                .chain(posts)
+                .sortByAll([(x: spec.HtmlPost) => -scores.lookup(x.id, 0), 
+                    (x: spec.HtmlPost) => params.oldestFirst ? x.id : -x.id])
+                .drop(params.offset)
+                .take(params.limit)
+                .value(),
+            totalCount: posts.length
+        };
+    }
+    
+    // Rebuilds the search index from the thread connector's posts.  Searches continue to be answered from the existing
+    // index until the rebuild finishes.  If a rebuild is already running, then resolves when that one finishes.
+    public rebuildIndex(): Promise<void> {
+        if (this._rebuildPromise === null) {
+            this._rebuildPromise = this.rebuild().then(
+                () => {
+                    this._rebuildPromise = null;
+                },
+                ex => {
+                    this._rebuildPromise = null;
+                    this._rebuildIndex = null;
+                    this._rebuildProgress = 1;
+                    return Promise.reject<void>(ex);
+                });
+        }
+        return this._rebuildPromise;
+    }
+    
+    // Reports the size of the search index and the progress of any rebuild.
+    public async getIndexStatus(): Promise<spec.SearchIndexStatus> {
+        return {
+            isRebuilding: this._rebuildPromise !== null,
+            progress: this._rebuildProgress,
+            postsIndexed: this._index.posts.count(),
+            lastRebuildDate: this._lastRebuildDate
+        };
+    }
+    
+    private async rebuild(): Promise<void> {
+        // this may take some time so make a note of it in the log output
+        this._server.log("status", "MemorySearchConnector: Rebuilding the index...");
+        this._rebuildIndex = new SearchIndex();
+        this._rebuildCategoryChanges = new Dictionary<number, spec.ModerationFlag>();
+        this._rebuildProgress = 0;
+        
+        // fetch the newest posts, newest first
+        const posts: spec.Post[] = [];
+        var nextId = await this._server.threadConnector.getNewestPostId();
+        while (nextId > 0 && posts.length < this._options.prunePosts) {
+            const count = Math.min(REBUILD_BATCH_SIZE, this._options.prunePosts - posts.length);
+            const batch = await this._server.threadConnector.getPostRange(nextId, count, true);
+            if (batch.length === 0) {
+                break;
+            }
+            batch.forEach(x => posts.push(x));
+            nextId = lodash.last(batch).id - 1;
+            await yieldToEventLoop();
+        }
+        
+        // index them oldest first, so that each post's parent has been indexed by the time we need its author
+        posts.reverse();
+        const index = this._rebuildIndex;
+        for (var i = 0; i < posts.length; i++) {
+            const post = posts[i];
+            if (!index.posts.containsKey(post.id)) { // a NewPost event may have beaten us to it
+                const parentPost = index.posts.lookup(post.parentId, null);
+                const htmlPost = spec.postToHtml(post);
+                htmlPost.category = this._rebuildCategoryChanges.lookup(post.id, post.category);
+                index.add(htmlPost, parentPost === null ? "" : parentPost.author);
+            }
+            
+            if ((i + 1) % REBUILD_BATCH_SIZE === 0) {
+                this._rebuildProgress = (i + 1) / posts.length;
+                await yieldToEventLoop();
+            }
         }
         
-        return lodash
-            .chain(results)
-            .sortBy(x => oldestFirst ? x : -x)
-            .map(x => this._posts.get(x))
-            .filter(x => x.category !== spec.ModerationFlag.Nuked)
-            .drop(offset)
-            .take(limit)
-            .value();
+        this._index = index;
+        this._rebuildIndex = null;
+        this._rebuildProgress = 1;
+        this._lastRebuildDate = this._server.clock.now();
+        this._server.log("status", "MemorySearchConnector: Rebuilt the index with " + index.posts.count() + " posts.");
     }
     
-    public addPostToIndex(newPost: spec.HtmlPost, parentAuthor: string): void {
-        this._posts.set(newPost.id, newPost);
+    // resolves false if there is no usable snapshot, in which case the index is left as it was.
+    private async loadSnapshot(): Promise<boolean> {
+        const filePath = this._options.snapshotFilePath;
+        const exists = await new Promise<boolean>(resolve => fs.exists(filePath, resolve));
+        if (!exists) {
+            this._server.log("status", "MemorySearchConnector: There is no snapshot at " + filePath + ".");
+            return false;
+        }
         
-        const wordStems = lodash.map(
-            spec.stripHtmlTags(newPost.body.replace(/</g, " <")).replace(/  /g, " ").trim().split(" "), 
-            spec.getWordStem);
-        wordStems.forEach(stem => {
-            this._postsByStem.get(stem).add(newPost.id);
-        });
+        var snapshot: ISearchIndexSnapshot;
+        try {
+            snapshot = JSON.parse(await readFileAsync(filePath));
+        } catch (ex) {
+            this._server.log("critical", "MemorySearchConnector: Unable to read the snapshot: " + ex.toString());
+            return false;
+        }
+        if (snapshot.version !== SNAPSHOT_VERSION) {
+            this._server.log("status", "MemorySearchConnector: Discarding a snapshot from an older version.");
+            return false;
+        }
+        
+        this._index = SearchIndex.fromSnapshot(snapshot);
+        this._lastRebuildDate = snapshot.lastRebuildDate === null ? null : new Date(<any>snapshot.lastRebuildDate);
+        this._server.log("status", "MemorySearchConnector: Loaded " + this._index.posts.count() + 
+            " posts from the snapshot.");
+        return true;
+    }
+    
+    // indexes the posts made after the newest post in the snapshot.  category changes made while the server was down
+    // are not picked up until the next rebuild.  resolves false without indexing anything if the snapshot is so far 
+    // behind that a rebuild would be quicker.
+    private async catchUp(): Promise<boolean> {
+        const index = this._index;
+        const newestIndexedId = index.posts.count() === 0 ? 0 : lodash.max(index.posts.keys());
+        const newestPostId = await this._server.threadConnector.getNewestPostId();
+        if (newestPostId - newestIndexedId > this._options.prunePosts) {
+            this._server.log("status", "MemorySearchConnector: The snapshot is too old to catch up from.");
+            return false;
+        }
+        
+        var count = 0;
+        var nextId = newestIndexedId + 1;
+        while (nextId <= newestPostId) {
+            const batch = await this._server.threadConnector.getPostRange(nextId, REBUILD_BATCH_SIZE, false);
+            if (batch.length === 0) {
+                break;
+            }
+            batch.forEach(post => {
+                if (!index.posts.containsKey(post.id)) { // a NewPost event may have beaten us to it
+                    const parentPost = index.posts.lookup(post.parentId, null);
+                    index.add(spec.postToHtml(post), parentPost === null ? "" : parentPost.author);
+                    count++;
+                }
+            });
+            nextId = lodash.last(batch).id + 1;
+            await yieldToEventLoop();
+        }
+        
+        await this.pruneIfNeeded();
+        this._server.log("status", "MemorySearchConnector: Indexed " + count + " posts made since the snapshot.");
+        return true;
+    }
+    
+    // writes to a temporary file and renames it into place so that a crash part way through doesn't lose the
+    // previous snapshot.  if a save is already in progress, then resolves when that one finishes.
+    private saveSnapshot(): Promise<void> {
+        if (this._snapshotPromise === null) {
+            const filePath = this._options.snapshotFilePath;
+            const tempFilePath = filePath + ".tmp";
+            const json = JSON.stringify(this._index.toSnapshot(this._lastRebuildDate));
+            const done = () => {
+                this._snapshotPromise = null;
+            };
+            this._snapshotPromise = writeFileAsync(tempFilePath, json)
+                .then(() => new Promise<void>((resolve, reject) => {
+                    fs.rename(tempFilePath, filePath, err => err ? reject(err) : resolve());
+                }))
+                .then(() => {
+                    done();
+                    this._server.log("status", "MemorySearchConnector: Saved the snapshot.");
+                }, ex => {
+                    done();
+                    return Promise.reject<void>(ex);
+                });
+        }
+        return this._snapshotPromise;
+    }
+    
+    // scores each post by tf-idf: for each word the query is looking for, the number of times it appears in the post
+    // (dampened), weighted by how rare the word is across the index.
+    private getRelevanceScores(index: SearchIndex, postIds: number[], terms: spec.SearchQuery)
+            : Dictionary<number, number> {
+        const scores = new Dictionary<number, number>();
+        const queryStems = spec.getSearchQueryStems(terms);
+        if (queryStems.length === 0) {
+            return scores;
+        }
         
-        this._postsByAuthor.get(newPost.author.toLowerCase()).add(newPost.id);
-        this._postsByParentAuthor.get(parentAuthor.toLowerCase()).add(newPost.id);
-        this._postsByCategory.get(newPost.category).add(newPost.id);
+        const numPosts = index.posts.count();
+        const idfs = queryStems.map(stem => 
+            Math.log(1 + numPosts / Math.max(1, findPostIds(index.postsByStem, stem).length)));
+        postIds.forEach(id => {
+            var score = 0;
+            queryStems.forEach((stem, i) => {
+                const tf = index.getStemCount(id, stem);
+                if (tf > 0) {
+                    score += (1 + Math.log(tf)) * idfs[i];
+                }
+            });
+            scores.set(id, score);
+        });
+        return scores;
+    }
+    
+    // returns the IDs of the posts that match the term.
+    private findTerm(index: SearchIndex, term: spec.SearchTerm): number[] {
+        switch (term.type) {
+            case spec.SearchTermType.Word:
+                return lodash.chain(spec.getSearchWords(term.value))
+                    .map(x => findPostIds(index.postsByStem, spec.getWordStem(x)))
+                    .reduce((a, b) => lodash.intersection(a, b))
+                    .value() || [];
+            
+            case spec.SearchTermType.Phrase:
+                // phrases are made of whole words, so only the posts containing all of the words need to be checked
+                const lcPhrase = spec.getSearchWords(term.value).join(" ").toLowerCase();
+                const candidates = this.findTerm(index, { type: spec.SearchTermType.Word, value: lcPhrase, 
+                    category: null });
+                return candidates.filter(x => 
+                    (" " + spec.getSearchWords(getPlainText(index.posts.get(x))).join(" ").toLowerCase() + " ")
+                    .indexOf(" " + lcPhrase + " ") !== -1);
+            
+            case spec.SearchTermType.Author:
+                return findPostIds(index.postsByAuthor, term.value.toLowerCase());
+            
+            case spec.SearchTermType.Category:
+                return findPostIds(index.postsByCategory, term.category);
+            
+            default:
+                return [];
+        }
     }
     
     private async onNewEvent(event: spec.Event): Promise<void> {
         if (event.eventType == spec.EventType.NewPost) {
             const eventData = <spec.NewPostEventData>event.eventData;
-            const newPost = eventData.post;
-            this.addPostToIndex(newPost, eventData.parentAuthor);
+            this._index.add(eventData.post, eventData.parentAuthor);
+            if (this._rebuildIndex !== null) {
+                this._rebuildIndex.add(lodash.clone(eventData.post), eventData.parentAuthor);
+            }
             await this.pruneIfNeeded();
         } else if (event.eventType == spec.EventType.CategoryChange) {
             const eventData = <spec.CategoryChangeEventData>event.eventData;
-            const post = this._posts.lookup(eventData.postId, null);
-            if (post !== null) {
-                this._postsByCategory.get(post.category).remove(post.id);
-                post.category = eventData.category;
-                this._postsByCategory.get(post.category).add(post.id);
+            this._index.setCategory(eventData.postId, eventData.category);
+            if (this._rebuildIndex !== null && !this._rebuildIndex.setCategory(eventData.postId, eventData.category)) {
+                this._rebuildCategoryChanges.set(eventData.postId, eventData.category);
             }
         }
     }
     
+    // this runs inside the dispatcher's event handler, so it evicts only the oldest posts rather than rebuilding the
+    // index.  the cost is proportional to maxPosts - prunePosts.
     private async pruneIfNeeded(): Promise<void> {
-        if (this._posts.count() >= this._options.maxPosts) {
-            this._server.log("status", "MemorySearchConnector: Starting reindex...");
-            const survivors = lodash.chain(this._posts.keys()).sortBy(x => -x).take(this._options.prunePosts).value();
-            const postsDict = this._posts;
-            
-            this._posts = new Dictionary<number, spec.Post>();
-            this._postsByStem = new DictionaryWithDefault<string, Set<number>>(
-                () => new Set<number>());
-            this._postsByAuthor = new DictionaryWithDefault<string, Set<number>>(
-                () => new Set<number>());
-            this._postsByParentAuthor = new DictionaryWithDefault<string, Set<number>>(
-                () => new Set<number>());
-            this._postsByCategory = new DictionaryWithDefault<spec.ModerationFlag, Set<number>>(
-                () => new Set<number>());
-            
-            for (var i = 0; i < survivors.length; i++) {
-                const post = postsDict.get(survivors[i]);
-                const parentPost = postsDict.lookup(post.parentId, null);
-                const event = {
-                    eventId: 0,
-                    eventDate: new Date(),
-                    eventType: spec.EventType.NewPost,
-                    eventData: <spec.NewPostEventData>{
-                        parentAuthor: parentPost === null ? "" : parentPost.author,
-                        post: spec.postToHtml(post),
-                        postId: post.id
-                    }
-                }
-                await this.onNewEvent(event);
-            }
-            this._server.log("status", "MemorySearchConnector: Reindex finished.");
+        const count = this._index.posts.count();
+        if (count >= this._options.maxPosts) {
+            const evictees = lodash.chain(this._index.posts.keys()).sortBy(x => x).take(count - this._options.prunePosts)
+                .value();
+            evictees.forEach(x => this._index.remove(x));
+            this._server.log("debug", "MemorySearchConnector: Evicted " + evictees.length + " posts.");
         }
     }
 }
+
+function getPlainText(post: spec.HtmlPost): string {
+    return spec.stripHtmlTags(post.body.replace(/</g, " <"));
+}
+
+function getWordStems(post: spec.HtmlPost): string[] {
+    return lodash.map(spec.getSearchWords(getPlainText(post)), spec.getWordStem);
+}
+
+// reads without get(), which would insert an empty set for every word or author that is merely searched for
+function findPostIds<TKey>(dict: DictionaryWithDefault<TKey, Set<number>>, key: TKey): number[] {
+    const set = dict.lookup(key, null);
+    return set === null ? [] : set.keys();
+}
+
+// drops the set entirely once it is empty, so that evicted words and authors don't accumulate
+function removeFromSet<TKey>(dict: DictionaryWithDefault<TKey, Set<number>>, key: TKey, postId: number): void {
+    const set = dict.lookup(key, null);
+    if (set === null) {
+        return;
+    }
+    set.remove(postId);
+    if (set.count() === 0) {
+        dict.remove(key);
+    }
+}
+
+function yieldToEventLoop(): Promise<void> {
+    return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+function readFileAsync(filePath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        fs.readFile(filePath, "utf8", (err, data) => err ? reject(err) : resolve(data));
+    });
+}
+
+function writeFileAsync(filePath: string, data: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.writeFile(filePath, data, "utf8", err => err ? reject(err) : resolve());
+    });
+}
@@ -0,0 +1,84 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import { Dictionary } from "../collections/index";
+
+export class MemoryStoryConnector implements spec.IStoryConnector {
+    private _server: api.Server;
+    private _nextId: number = 1;
+    private _stories = new Dictionary<number, spec.Story>(); // story id -> story
+    
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+    }
+    
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
+    // Gets a range of stories, starting with the most recently published.  May return fewer than 'take' stories.
+    public async getStories(drop: number, take: number): Promise<spec.Story[]> {
+        return lodash.chain(this._stories.values()).sortBy(x => -x.id).drop(drop).take(take).value();
+    }
+    
+    // Rejects with ERR_INVALID_STORY if the story ID does not exist.
+    public async getStory(storyId: number): Promise<spec.Story> {
+        const story = this._stories.lookup(storyId, null);
+        if (story === null) {
+            return Promise.reject<spec.Story>(spec.apiError("ERR_INVALID_STORY", "The story was not found."));
+        }
+        return story;
+    }
+    
+    // Resolves the new story ID.  The caller has verified that the user is an administrator and has already posted
+    // the story's root thread.
+    public async addStory(credentials: spec.UserCredentials, title: string, preview: string, body: string, 
+            url: string, threadId: number): Promise<number> {
+        const story: spec.Story = {
+            id: this._nextId++,
+            title: title,
+            preview: preview,
+            body: body,
+            url: url,
+            date: this._server.clock.now(),
+            threadId: threadId
+        };
+        this._stories.add(story.id, story);
+        return story.id;
+    }
+    
+    // Replaces the story's text.  The publication date and thread are unchanged.  The caller has verified that the 
+    // user is an administrator.  Rejects with ERR_INVALID_STORY if the story ID does not exist.
+    public async editStory(credentials: spec.UserCredentials, storyId: number, title: string, preview: string,
+            body: string, url: string): Promise<void> {
+        const story = await this.getStory(storyId);
+        story.title = title;
+        story.preview = preview;
+        story.body = body;
+        story.url = url;
+    }
+}
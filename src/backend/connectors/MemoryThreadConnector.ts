@@ -52,7 +52,7 @@ export class MemoryThreadConnnector implements spec.IThreadConnector {
     // are included.  Up to "maxThreads" of the most recent threads are returned.  "expirationHours" is the number of
     // hours to retain a thread in this list.
     public async getActiveThreadIds(maxThreads: number, expirationHours: number): Promise<number[]> {
-        var nowMsec = new Date().getTime();
+        var nowMsec = this._server.clock.now().getTime();
         var expirationMsec = expirationHours * 3600000;
         var thresholdMsec = nowMsec - expirationMsec;
         return lodash
@@ -95,7 +95,7 @@ export class MemoryThreadConnnector implements spec.IThreadConnector {
             parentId: parentId,
             author: credentials.username,
             category: spec.ModerationFlag.OnTopic,
-            date: new Date(),
+            date: this._server.clock.now(),
             body: text, //TODO: handle tags
             lols: <spec.LolCount[]>[]
         };
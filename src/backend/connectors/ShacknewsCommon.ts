@@ -38,6 +38,13 @@ export class ShacknewsCommon {
         });
     }
     
+    // Closes the connections in the pool.  Call this once the connectors have stopped.
+    public close(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this._db.end(err => err ? reject(err) : resolve());
+        });
+    }
+    
     public query(sql: string, values: any): Promise<any[]> {
         return new Promise<any[]>((resolve, reject) => {
             this._db.execute(sql, values, (err, rows) => {
@@ -50,6 +57,35 @@ export class ShacknewsCommon {
         });
     }
     
+    // Converts a chat_posts.mod_type_id value.  Unrecognized values are on-topic.
+    public parseCategory(category: number): spec.ModerationFlag {
+        switch (category) {
+            case 1: return spec.ModerationFlag.Informative;
+            case 2: return spec.ModerationFlag.NotWorkSafe;
+            case 3: return spec.ModerationFlag.Stupid;
+            case 4: return spec.ModerationFlag.Tangent;
+            case 5: return spec.ModerationFlag.OnTopic;
+            case 7: return spec.ModerationFlag.Nuked;
+            case 8: return spec.ModerationFlag.Nuked;
+            case 9: return spec.ModerationFlag.PoliticalReligious;
+            default: return spec.ModerationFlag.OnTopic;
+        }
+    }
+    
+    // Converts a moderation flag to its chat_posts.mod_type_id value.
+    public toCategory(modFlag: spec.ModerationFlag): number {
+        switch (modFlag) {
+            case spec.ModerationFlag.Informative: return 1;
+            case spec.ModerationFlag.NotWorkSafe: return 2;
+            case spec.ModerationFlag.Stupid: return 3;
+            case spec.ModerationFlag.Tangent: return 4;
+            case spec.ModerationFlag.OnTopic: return 5;
+            case spec.ModerationFlag.Nuked: return 8;
+            case spec.ModerationFlag.PoliticalReligious: return 9;
+            default: return 5;
+        }
+    }
+    
     // for operations that we perform by contacting a shacknews.com web service, this will
     // log the user in and return the HttpClient containing the logged-in cookies.
     public async newUserSession(credentials: spec.UserCredentials): Promise<api.HttpClient> {
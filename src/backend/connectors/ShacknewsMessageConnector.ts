@@ -40,6 +40,10 @@ export class ShacknewsMessageConnector implements spec.IMessageConnector {
     public async start(): Promise<void> {
     }
     
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
     // Gets a range of messages in the user’s inbox or sent mailbox.  May return fewer than 'take' messages.
     public async getMessages(credentials: spec.UserCredentials, folder: spec.Mailbox, drop: number, take: number): Promise<spec.Message[]> {
         const to = folder === spec.Mailbox.Inbox;
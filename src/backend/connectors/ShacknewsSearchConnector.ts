@@ -0,0 +1,225 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import * as connectors from "./index";
+
+// counting the posts takes a while on the full database, so getIndexStatus() only does it this often
+const INDEX_COUNT_CACHE_MSEC = 10 * 60 * 1000;
+
+// The statements that ShacknewsSearchConnector runs for a search.  Both share 'values'.
+export interface ShacknewsSearchQuery {
+    countSql: string;
+    selectSql: string;
+    values: any;
+}
+
+// Searches the full history of the Shacknews database.  Search terms are matched using the FULLTEXT index on 
+// chat_posts.body.  Unlike MemorySearchConnector, words are matched exactly rather than by their stems.  Posts on the
+// moderator board (content_id 99) are never included.
+export class ShacknewsSearchConnector implements spec.ISearchConnector {
+    private _common: connectors.ShacknewsCommon;
+    private _server: api.Server;
+    private _indexCount: number = null;
+    private _indexCountDate: Date = null;
+    
+    constructor(common: connectors.ShacknewsCommon) {
+        this._common = common;
+    }
+    
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+    }
+    
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
+    // Comment search. At least one of [terms, author, parentAuthor, category, threadId] will be provided and the other
+    // filters may be null (caller verified).  If only 'terms' is provided, then it has at least one group (caller 
+    // verified).  Nuked posts are never included.
+    public async search(params: spec.SearchParameters): Promise<spec.SearchResults> {
+        const query = this.buildQuery(params);
+        const countRows: { count: number }[] = await this._common.query(query.countSql, query.values);
+        
+        interface Row {
+            id: number;
+            threadId: number;
+            parentId: number;
+            author: string;
+            category: number;
+            date: Date;
+            body: string;
+        }
+        const rows: Row[] = await this._common.query(query.selectSql, query.values);
+        
+        return {
+            posts: rows.map(x => spec.postToHtml({
+                id: x.id,
+                threadId: x.threadId,
+                parentId: x.parentId,
+                author: x.author,
+                category: this._common.parseCategory(x.category),
+                date: x.date,
+                body: x.body,
+                lols: []
+            })),
+            totalCount: countRows.length === 0 ? 0 : countRows[0].count
+        };
+    }
+    
+    // Builds the SQL for search() without running it, so that it can be tested without a database.
+    public buildQuery(params: spec.SearchParameters): ShacknewsSearchQuery {
+        const values: any = {};
+        var nextValueId = 0;
+        const addValue = (value: any) => {
+            const name = "arg" + (nextValueId++);
+            values[name] = value;
+            return ":" + name;
+        };
+        
+        const conditions = ["p.content_id != 99", "p.mod_type_id NOT IN (7, 8)"];
+        if (params.terms !== null) {
+            params.terms.groups.forEach(group => {
+                conditions.push("(" + group.map(x => this.getTermCondition(x, addValue)).join(" OR ") + ")");
+            });
+            params.terms.exclusions.forEach(term => {
+                conditions.push("NOT " + this.getTermCondition(term, addValue));
+            });
+        }
+        if (params.author !== null) {
+            conditions.push("u.username = " + addValue(params.author));
+        }
+        if (params.parentAuthor !== null) {
+            conditions.push("pu.username = " + addValue(params.parentAuthor));
+        }
+        if (params.category !== null) {
+            conditions.push(this.getCategoryCondition(params.category));
+        }
+        if (params.threadId !== null) {
+            conditions.push("p.root_id = " + addValue(params.threadId));
+        }
+        if (params.after !== null) {
+            conditions.push("p.post_time >= " + addValue(params.after));
+        }
+        if (params.before !== null) {
+            conditions.push("p.post_time < " + addValue(params.before));
+        }
+        
+        const fromWhere = 
+            `FROM chat_posts AS p
+            INNER JOIN users AS u ON p.user_id = u.id
+            LEFT JOIN chat_posts AS parent ON p.parent_id = parent.id
+            LEFT JOIN users AS pu ON parent.user_id = pu.id
+            WHERE ${conditions.join(" AND ")}`;
+        
+        // MySQL's natural language relevance is based on term frequency and inverse document frequency
+        const direction = params.oldestFirst ? "ASC" : "DESC";
+        var orderBy = `p.id ${direction}`;
+        const relevanceWords = this.getRelevanceWords(params.terms);
+        if (params.sort === spec.SearchSort.Relevance && relevanceWords !== "") {
+            orderBy = `MATCH(p.body) AGAINST (${addValue(relevanceWords)} IN NATURAL LANGUAGE MODE) DESC, ` + orderBy;
+        }
+        
+        return {
+            countSql: `SELECT COUNT(*) AS count ${fromWhere}`,
+            selectSql: 
+                `SELECT
+                    p.id, p.root_id AS threadId, p.parent_id AS parentId, u.username AS author,
+                    p.mod_type_id AS category, p.post_time AS date, p.body
+                ${fromWhere}
+                ORDER BY ${orderBy}
+                LIMIT ${addValue(params.offset)}, ${addValue(params.limit)}`,
+            values: values
+        };
+    }
+    
+    // Rebuilds the search index from the thread connector's posts.  Searches continue to be answered from the existing
+    // index until the rebuild finishes.  If a rebuild is already running, then resolves when that one finishes.
+    public async rebuildIndex(): Promise<void> {
+        // MySQL keeps the FULLTEXT index up to date on its own
+        this._server.log("status", "ShacknewsSearchConnector: The search index does not need to be rebuilt.");
+    }
+    
+    // Reports the size of the search index and the progress of any rebuild.
+    public async getIndexStatus(): Promise<spec.SearchIndexStatus> {
+        const now = this._server.clock.now();
+        if (this._indexCount === null || this._indexCountDate.getTime() + INDEX_COUNT_CACHE_MSEC <= now.getTime()) {
+            const rows: { count: number }[] = await this._common.query(
+                `SELECT COUNT(*) AS count
+                FROM chat_posts
+                WHERE content_id != 99`,
+                {}
+            );
+            this._indexCount = rows.length === 0 ? 0 : rows[0].count;
+            this._indexCountDate = now;
+        }
+        return {
+            isRebuilding: false,
+            progress: 1,
+            postsIndexed: this._indexCount,
+            lastRebuildDate: null
+        };
+    }
+    
+    private getTermCondition(term: spec.SearchTerm, addValue: (value: any) => string): string {
+        switch (term.type) {
+            case spec.SearchTermType.Word:
+            case spec.SearchTermType.Phrase:
+                // the words are quoted so that any characters in them aren't taken as boolean mode operators
+                const words = spec.getSearchWords(term.value.replace(/"/g, " "));
+                return `MATCH(p.body) AGAINST (${addValue("\"" + words.join(" ") + "\"")} IN BOOLEAN MODE)`;
+            case spec.SearchTermType.Author:
+                return "u.username = " + addValue(term.value);
+            case spec.SearchTermType.Category:
+                return this.getCategoryCondition(term.category);
+            default:
+                return "FALSE";
+        }
+    }
+    
+    private getCategoryCondition(category: spec.ModerationFlag): string {
+        if (category === spec.ModerationFlag.OnTopic) {
+            // ShacknewsCommon.parseCategory() treats every unrecognized value as on-topic
+            return "p.mod_type_id NOT IN (1, 2, 3, 4, 7, 8, 9)";
+        } else {
+            return "p.mod_type_id = " + this._common.toCategory(category);
+        }
+    }
+    
+    // the words that the query is looking for, for ranking by relevance.  filters and exclusions don't contribute.
+    private getRelevanceWords(query: spec.SearchQuery): string {
+        if (query === null) {
+            return "";
+        }
+        const words: string[] = [];
+        query.groups.forEach(group => group.forEach(term => {
+            if (term.type === spec.SearchTermType.Word || term.type === spec.SearchTermType.Phrase) {
+                spec.getSearchWords(term.value).forEach(x => words.push(x));
+            }
+        }));
+        return words.join(" ");
+    }
+}
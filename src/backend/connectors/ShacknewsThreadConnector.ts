@@ -120,7 +120,7 @@ export class ShacknewsThreadConnector {
             threadId: x.threadId,
             parentId: x.parentId,
             author: x.author,
-            category: this.parseCategory(x.category),
+            category: this._common.parseCategory(x.category),
             date: x.date,
             body: x.body,
             lols: []
@@ -222,7 +222,7 @@ export class ShacknewsThreadConnector {
             threadId: x.threadId,
             parentId: x.parentId,
             author: x.author,
-            category: this.parseCategory(x.category),
+            category: this._common.parseCategory(x.category),
             date: x.date,
             body: x.body,
             lols: []
@@ -251,7 +251,7 @@ export class ShacknewsThreadConnector {
         const response = await http.request("get", "https://www.shacknews.com/mod_chatty.x", {
             "root": threadId,
             "post_id": postId,
-            "mod_type_id": this.toCategory(category)
+            "mod_type_id": this._common.toCategory(category)
         });
         if (response.indexOf("Invalid moderation flags") >= 0) {
             return Promise.reject("Possible bug in the API. Server does not understand the moderation flag.");
@@ -264,33 +264,6 @@ export class ShacknewsThreadConnector {
         await this._pollTimer.triggerNow();
     }
     
-    private parseCategory(category: number): spec.ModerationFlag {
-        switch (category) {
-            case 1: return spec.ModerationFlag.Informative;
-            case 2: return spec.ModerationFlag.NotWorkSafe;
-            case 3: return spec.ModerationFlag.Stupid;
-            case 4: return spec.ModerationFlag.Tangent;
-            case 5: return spec.ModerationFlag.OnTopic;
-            case 7: return spec.ModerationFlag.Nuked;
-            case 8: return spec.ModerationFlag.Nuked;
-            case 9: return spec.ModerationFlag.PoliticalReligious;
-            default: return spec.ModerationFlag.OnTopic;
-        }
-    }
-    
-    private toCategory(modFlag: spec.ModerationFlag): number {
-        switch (modFlag) {
-            case spec.ModerationFlag.Informative: return 1;
-            case spec.ModerationFlag.NotWorkSafe: return 2;
-            case spec.ModerationFlag.Stupid: return 3;
-            case spec.ModerationFlag.Tangent: return 4;
-            case spec.ModerationFlag.OnTopic: return 5;
-            case spec.ModerationFlag.Nuked: return 8;
-            case spec.ModerationFlag.PoliticalReligious: return 9;
-            default: return 5;
-        }
-    }
-    
     private arrayToObject<T>(array: T[], keySelector: (value: T) => string, valueSelector: (value: T) => any): any {
         const obj: any = {};
         for (var i = 0; i < array.length; i++) {
@@ -330,7 +303,7 @@ export class ShacknewsThreadConnector {
                 threadId: x.threadId,
                 parentId: x.parentId,
                 author: x.author,
-                category: this.parseCategory(x.category),
+                category: this._common.parseCategory(x.category),
                 date: x.date,
                 body: x.body,
                 lols: []
@@ -360,7 +333,7 @@ export class ShacknewsThreadConnector {
             const x = modRows[i];
             await this._server.dispatcher.sendEvent(spec.EventType.CategoryChange, {
                 postId: x.postId,
-                category: this.parseCategory(x.category)
+                category: this._common.parseCategory(x.category)
             });
             this._lastModLogId = x.id;
         }
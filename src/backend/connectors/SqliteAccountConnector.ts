@@ -0,0 +1,234 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as crypto from "crypto";
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import * as connectors from "./index";
+import { Dictionary } from "../collections/index";
+
+const PASSWORD_ITERATIONS = 10000;
+const PASSWORD_KEY_LENGTH = 32;
+
+interface IAccountRow {
+    username: string;
+    password_salt: string;
+    password_hash: string;
+    level: number;
+    registration_date: number;
+}
+
+interface IBanRow {
+    username: string;
+    moderator: string;
+    reason: string;
+    start_date: number;
+    expiration_date: number;
+}
+
+// Passwords are stored as salted PBKDF2 hashes.  There is no API for registering, so accounts are created with
+// createAccount(), or by passing them to the constructor to be created at startup if they don't exist yet.
+export class SqliteAccountConnector implements spec.IAccountConnector {
+    private _server: api.Server;
+    private _common: connectors.SqliteCommon;
+    private _initialAccounts: connectors.MemoryUserAccount[];
+    
+    constructor(common: connectors.SqliteCommon, initialAccounts: connectors.MemoryUserAccount[]) {
+        this._common = common;
+        this._initialAccounts = initialAccounts;
+    }
+    
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+    }
+    
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+        await this._common.open();
+        for (var i = 0; i < this._initialAccounts.length; i++) {
+            const account = this._initialAccounts[i];
+            if (!(await this.userExists(account.username))) {
+                await this.createAccount(account.username, account.password, account.level, account.registrationDate);
+            }
+        }
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
+    // Adds a new account.  Rejects with ERR_ARGUMENT if the username is already taken (case insensitive).
+    public async createAccount(username: string, password: string, level: spec.UserAccessLevel, 
+            registrationDate: Date): Promise<void> {
+        const salt = crypto.randomBytes(16).toString("hex");
+        const hash = await hashPassword(password, salt);
+        try {
+            // the primary key is case insensitive, so it catches a taken username even if another request inserts it
+            // at the same time
+            await this._common.execute(
+                `INSERT INTO accounts (username, password_salt, password_hash, level, registration_date)
+                VALUES (:username, :salt, :hash, :level, :registrationDate)`,
+                {
+                    username: username,
+                    salt: salt,
+                    hash: hash,
+                    level: level,
+                    registrationDate: registrationDate.getTime()
+                });
+        } catch (ex) {
+            if (ex.code === "SQLITE_CONSTRAINT") {
+                return Promise.reject<void>(spec.apiError("ERR_ARGUMENT", "The username is already taken."));
+            }
+            throw ex;
+        }
+    }
+    
+    // Resolves a token on successful login.  Resolves null if the username/password are wrong.  Rejects if a problem
+    // occurs other than the username/password being wrong.
+    public async tryLogin(username: string, password: string): Promise<spec.UserCredentials> {
+        const row: IAccountRow = await this._common.queryOne(
+            "SELECT * FROM accounts WHERE username = :username", { username: username });
+        if (row === null) {
+            return <spec.UserCredentials>null; // wrong username
+        } else if (hashesEqual(row.password_hash, await hashPassword(password, row.password_salt))) {
+            return new spec.UserCredentials(row.username, password, <spec.UserAccessLevel>row.level);
+        } else {
+            return <spec.UserCredentials>null; // wrong password
+        }
+    }
+    
+    /// Resolves true if the username exists (case insensitive), false if it does not.
+    public async userExists(username: string): Promise<boolean> {
+        const row = await this._common.queryOne(
+            "SELECT 1 FROM accounts WHERE username = :username", { username: username });
+        return row !== null;
+    }
+    
+    // Resolves a mapping of usernames to registration dates on success.  If usernames is not provided, then all users
+    // are returned.  If a provided username does not exist, then it is silently omitted from the results.
+    public async getUserRegistrationDates(usernames?: string[]): Promise<Dictionary<string, Date>> {
+        const rows: IAccountRow[] = await this._common.query(
+            "SELECT username, registration_date FROM accounts", {});
+        if (typeof usernames === "undefined") {
+            return Dictionary.fromArray(rows, x => x.username, x => new Date(x.registration_date));
+        } else {
+            const all = Dictionary.fromArray(rows, x => x.username.toLowerCase(), x => new Date(x.registration_date));
+            const dict = new Dictionary<string, Date>();
+            usernames.forEach(username => {
+                const date = all.lookup(username.toLowerCase(), null);
+                if (date !== null) {
+                    dict.set(username, date);
+                }
+            });
+            return dict;
+        }
+    }
+    
+    // Resolves the user's ban if the username exists and the user is currently banned.  Resolves null otherwise.
+    // Bans that have expired are not returned.
+    public async getActiveBan(username: string): Promise<spec.BanRecord> {
+        const row: IBanRow = await this._common.queryOne(
+            `SELECT * FROM bans 
+            WHERE username = :username AND (expiration_date IS NULL OR expiration_date > :now)`,
+            { username: username, now: this._server.clock.now().getTime() });
+        return row === null ? null : toBanRecord(row);
+    }
+    
+    // Resolves all bans that are currently in effect, in no particular order.
+    public async getActiveBans(): Promise<spec.BanRecord[]> {
+        const rows: IBanRow[] = await this._common.query(
+            "SELECT * FROM bans WHERE expiration_date IS NULL OR expiration_date > :now",
+            { now: this._server.clock.now().getTime() });
+        return rows.map(toBanRecord);
+    }
+    
+    // Moderator-only action that bans a user, replacing any ban that the user already has.  The caller has verified 
+    // that the user is a moderator and that the banned user exists.  'expirationDate' is null for a permanent ban.
+    // The account connector must arrange for the BanChange event to be sent.
+    public async banUser(credentials: spec.UserCredentials, username: string, reason: string, expirationDate: Date)
+            : Promise<spec.BanRecord> {
+        const ban: spec.BanRecord = {
+            username: username,
+            moderator: credentials.username,
+            reason: reason,
+            startDate: this._server.clock.now(),
+            expirationDate: expirationDate
+        };
+        await this._common.execute(
+            `INSERT OR REPLACE INTO bans (username, moderator, reason, start_date, expiration_date)
+            VALUES (:username, :moderator, :reason, :startDate, :expirationDate)`,
+            {
+                username: ban.username,
+                moderator: ban.moderator,
+                reason: ban.reason,
+                startDate: ban.startDate.getTime(),
+                expirationDate: expirationDate === null ? null : expirationDate.getTime()
+            });
+        
+        await this._server.dispatcher.sendEvent(spec.EventType.BanChange, {
+            username: username,
+            isBanned: true,
+            reason: reason,
+            expirationDate: expirationDate
+        });
+        return ban;
+    }
+    
+    // Moderator-only action that lifts a user's ban.  The caller has verified that the user is a moderator.  If the
+    // user is not banned, then nothing happens.  Otherwise, the account connector must arrange for the BanChange 
+    // event to be sent.
+    public async unbanUser(credentials: spec.UserCredentials, username: string): Promise<void> {
+        const ban = await this.getActiveBan(username);
+        await this._common.execute("DELETE FROM bans WHERE username = :username", { username: username });
+        if (ban !== null) {
+            await this._server.dispatcher.sendEvent(spec.EventType.BanChange, {
+                username: ban.username,
+                isBanned: false,
+                reason: null,
+                expirationDate: null
+            });
+        }
+    }
+}
+
+function hashPassword(password: string, salt: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        crypto.pbkdf2(password, salt, PASSWORD_ITERATIONS, PASSWORD_KEY_LENGTH, "sha256", (err, key) => {
+            err ? reject(err) : resolve(key.toString("hex"));
+        });
+    });
+}
+
+// Compares two hex-encoded password hashes in constant time.
+function hashesEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a, "hex");
+    const bufferB = Buffer.from(b, "hex");
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function toBanRecord(row: IBanRow): spec.BanRecord {
+    return {
+        username: row.username,
+        moderator: row.moderator,
+        reason: row.reason,
+        startDate: new Date(row.start_date),
+        expirationDate: row.expiration_date === null ? null : new Date(row.expiration_date)
+    };
+}
@@ -0,0 +1,132 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import * as connectors from "./index";
+import { Dictionary } from "../collections/index";
+
+// IClientDataConnector requires the implementation to reject with ERR_ARGUMENT if a provided username does not exist.
+// The account connector is asked whether the user exists.
+export class SqliteClientDataConnector implements spec.IClientDataConnector {
+    private _server: api.Server;
+    private _common: connectors.SqliteCommon;
+    
+    constructor(common: connectors.SqliteCommon) {
+        this._common = common;
+    }
+    
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+    }
+    
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+        await this._common.open();
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
+    // Resolves a list of moderation flags that the user has selected to show.  If the user has never set flag filters,
+    // then a default set of filters are returned.
+    public async getModerationFlagFilters(username: string): Promise<spec.ModerationFlag[]> {
+        await this.checkUserExists(username);
+        const row: { flags: string } = await this._common.queryOne(
+            "SELECT flags FROM moderation_flag_filters WHERE username = :username", { username: username });
+        if (row === null) {
+            return [
+                spec.ModerationFlag.Informative,
+                spec.ModerationFlag.OnTopic,
+                spec.ModerationFlag.PoliticalReligious,
+                spec.ModerationFlag.Stupid,
+                spec.ModerationFlag.Tangent
+            ];
+        }
+        return JSON.parse(row.flags);
+    }
+    
+    // Sets the moderation flag settings for this user.  Resolves true if it worked.
+    public async setModerationFlagFilters(username: string, flags: spec.ModerationFlag[]): Promise<boolean> {
+        await this.checkUserExists(username);
+        await this._common.execute(
+            "INSERT OR REPLACE INTO moderation_flag_filters (username, flags) VALUES (:username, :flags)",
+            { username: username, flags: JSON.stringify(flags) });
+        return true;
+    }
+    
+    // Resolves a mapping of post IDs to MarkedPostTypes, one pair for each marked post.
+    public async getMarkedPosts(username: string): Promise<Dictionary<number, spec.MarkedPostType>> {
+        await this.checkUserExists(username);
+        const rows: { post_id: number, type: string }[] = await this._common.query(
+            "SELECT post_id, type FROM marked_posts WHERE username = :username", { username: username });
+        return Dictionary.fromArray(rows, x => x.post_id, x => <spec.MarkedPostType><any>x.type);
+    }
+    
+    // Sets a marked post for this user.  Resolves true if it worked.
+    public async setMarkedPost(username: string, postId: number, type: spec.MarkedPostType): Promise<boolean> {
+        await this.checkUserExists(username);
+        await this._common.execute(
+            "INSERT OR REPLACE INTO marked_posts (username, post_id, type) VALUES (:username, :postId, :type)",
+            { username: username, postId: postId, type: type.toString() });
+        return true;
+    }
+    
+    // Removes all marked posts for this user.  Resolves true if it worked.
+    public async clearMarkedPosts(username: string): Promise<boolean> {
+        await this.checkUserExists(username);
+        await this._common.execute("DELETE FROM marked_posts WHERE username = :username", { username: username });
+        return true;
+    }
+
+    // Retrieves a blob of client-defined data.  Resolves an empty string if no data is present.
+    public async getClientData(username: string, client: string): Promise<string> {
+        await this.checkUserExists(username);
+        const row: { data: string } = await this._common.queryOne(
+            "SELECT data FROM client_data WHERE username = :username AND client = :client",
+            { username: username, client: client });
+        return row === null ? "" : row.data;
+    }
+    
+    // Saves a blob of client-defined data.  Resolves true if it worked.
+    // The implementation must accept at least 100,000 bytes for the data string but can reject above that if it wants.
+    public async setClientData(username: string, client: string, data: string): Promise<boolean> {
+        await this.checkUserExists(username);
+        // we'll accept 100,000 characters which will be at least the required 100,000 bytes
+        if (data.length > 100000) {
+            return Promise.reject<boolean>(spec.apiError("ERR_ARGUMENT", "data is too long."));
+        }
+        await this._common.execute(
+            "INSERT OR REPLACE INTO client_data (username, client, data) VALUES (:username, :client, :data)",
+            { username: username, client: client, data: data });
+        return true;
+    }
+    
+    // Resolves true if the user exists.  Rejects with ERR_ARGUMENT if the user does not exist.
+    private async checkUserExists(username: string): Promise<boolean> {
+        const exists = await this._server.accountConnector.userExists(username);
+        if (exists) {
+            return true;
+        } else {
+            return Promise.reject<boolean>(spec.apiError("ERR_ARGUMENT", "User does not exist."));
+        }
+    }
+}
@@ -0,0 +1,249 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+/// <reference path="./sqlite3.d.ts" />
+"use strict";
+
+import * as sqlite3 from "sqlite3";
+
+// Each migration brings the schema from the previous version to the next.  The database's user_version pragma holds
+// the number of migrations that have been applied, so new migrations must only ever be added to the end of this list.
+const MIGRATIONS: string[] = [
+    // 1: initial schema
+    `CREATE TABLE accounts (
+        username TEXT NOT NULL PRIMARY KEY COLLATE NOCASE,
+        password_salt TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        registration_date INTEGER NOT NULL
+    );
+    CREATE TABLE bans (
+        username TEXT NOT NULL PRIMARY KEY COLLATE NOCASE,
+        moderator TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        start_date INTEGER NOT NULL,
+        expiration_date INTEGER NULL
+    );
+    CREATE TABLE threads (
+        id INTEGER NOT NULL PRIMARY KEY,
+        newest_post_id INTEGER NOT NULL,
+        date INTEGER NOT NULL
+    );
+    CREATE INDEX threads_newest_post_id ON threads (newest_post_id);
+    CREATE TABLE posts (
+        id INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        thread_id INTEGER NOT NULL,
+        parent_id INTEGER NOT NULL,
+        author TEXT NOT NULL,
+        category TEXT NOT NULL,
+        date INTEGER NOT NULL,
+        body TEXT NOT NULL
+    );
+    CREATE INDEX posts_thread_id ON posts (thread_id);
+    CREATE TABLE messages (
+        id INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        sender TEXT NOT NULL COLLATE NOCASE,
+        recipient TEXT NOT NULL COLLATE NOCASE,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        date INTEGER NOT NULL,
+        unread INTEGER NOT NULL,
+        deleted_by_sender INTEGER NOT NULL DEFAULT 0,
+        deleted_by_recipient INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX messages_sender ON messages (sender);
+    CREATE INDEX messages_recipient ON messages (recipient);
+    CREATE TABLE moderation_flag_filters (
+        username TEXT NOT NULL PRIMARY KEY COLLATE NOCASE,
+        flags TEXT NOT NULL
+    );
+    CREATE TABLE marked_posts (
+        username TEXT NOT NULL COLLATE NOCASE,
+        post_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        PRIMARY KEY (username, post_id)
+    );
+    CREATE TABLE client_data (
+        username TEXT NOT NULL COLLATE NOCASE,
+        client TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (username, client)
+    );`,
+    
+    // 2: stories
+    `CREATE TABLE stories (
+        id INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        preview TEXT NOT NULL,
+        body TEXT NOT NULL,
+        url TEXT NOT NULL,
+        date INTEGER NOT NULL,
+        thread_id INTEGER NOT NULL
+    );`
+];
+
+// Runs statements inside a transaction started by SqliteCommon.transaction().  The statements run immediately rather
+// than waiting their turn behind other callers, since the transaction already holds the connection.
+export class SqliteTransaction {
+    private _db: sqlite3.Database;
+    
+    constructor(db: sqlite3.Database) {
+        this._db = db;
+    }
+    
+    // Resolves the rows.  'values' holds the named placeholders in the SQL, without their leading colons.
+    public query(sql: string, values: any): Promise<any[]> {
+        return new Promise<any[]>((resolve, reject) => {
+            this._db.all(sql, toParams(values), (err, rows) => err ? reject(err) : resolve(rows));
+        });
+    }
+    
+    // Resolves the first row, or null if there are no rows.
+    public queryOne(sql: string, values: any): Promise<any> {
+        return new Promise<any>((resolve, reject) => {
+            this._db.get(sql, toParams(values), (err, row) => err ? reject(err) : resolve(row || null));
+        });
+    }
+    
+    // Runs an INSERT, UPDATE or DELETE statement.
+    public execute(sql: string, values: any): Promise<sqlite3.RunResult> {
+        return new Promise<sqlite3.RunResult>((resolve, reject) => {
+            this._db.run(sql, toParams(values), function(err: Error) {
+                // node-sqlite3 passes the statement's results in 'this'
+                err ? reject(err) : resolve({ lastID: this.lastID, changes: this.changes });
+            });
+        });
+    }
+    
+    // Runs one or more statements without placeholders.
+    public exec(sql: string): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this._db.exec(sql, err => err ? reject(err) : resolve());
+        });
+    }
+}
+
+// provides shared functionality to all SQLite connectors.  The connectors share one database file and one connection.
+// Because a transaction on that connection would also capture any statement that another request runs while it is
+// open, every statement waits its turn in a single queue, and a transaction holds the queue until it finishes.
+export class SqliteCommon {
+    private _filePath: string;
+    private _db: sqlite3.Database = null;
+    private _opening: Promise<void> = null;
+    private _queue: Promise<void> = Promise.resolve();
+    
+    // 'filePath' may be ":memory:" for a database that is discarded when the server stops.
+    constructor(filePath: string) {
+        this._filePath = filePath;
+    }
+    
+    // Opens the database and applies any pending migrations.  Each connector calls this from its start() method, so 
+    // it only does the work the first time.
+    public open(): Promise<void> {
+        if (this._opening === null) {
+            this._opening = this.openCore();
+        }
+        return this._opening;
+    }
+    
+    public close(): Promise<void> {
+        const db = this._db;
+        this._db = null;
+        this._opening = null;
+        if (db === null) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve, reject) => {
+            db.close(err => err ? reject(err) : resolve());
+        });
+    }
+    
+    // The number of migrations that have been applied to the database.
+    public async getSchemaVersion(): Promise<number> {
+        const row = await this.queryOne("PRAGMA user_version", {});
+        return row.user_version;
+    }
+    
+    // Resolves the rows.  'values' holds the named placeholders in the SQL, without their leading colons.
+    public query(sql: string, values: any): Promise<any[]> {
+        return this.enqueue(tx => tx.query(sql, values));
+    }
+    
+    // Resolves the first row, or null if there are no rows.
+    public queryOne(sql: string, values: any): Promise<any> {
+        return this.enqueue(tx => tx.queryOne(sql, values));
+    }
+    
+    // Runs an INSERT, UPDATE or DELETE statement.
+    public execute(sql: string, values: any): Promise<sqlite3.RunResult> {
+        return this.enqueue(tx => tx.execute(sql, values));
+    }
+    
+    // Runs 'work' in a transaction, which is rolled back if 'work' rejects.  'work' must run its statements through
+    // the provided SqliteTransaction; calling this object's methods from inside 'work' would wait for the transaction
+    // to finish, which never happens.
+    public transaction<T>(work: (tx: SqliteTransaction) => Promise<T>): Promise<T> {
+        return this.enqueue(async (tx) => {
+            await tx.exec("BEGIN IMMEDIATE");
+            try {
+                const value = await work(tx);
+                await tx.exec("COMMIT");
+                return value;
+            } catch (ex) {
+                await tx.exec("ROLLBACK");
+                throw ex;
+            }
+        });
+    }
+    
+    private async openCore(): Promise<void> {
+        this._db = await new Promise<sqlite3.Database>((resolve, reject) => {
+            const db = new sqlite3.Database(this._filePath, err => err ? reject(err) : resolve(db));
+        });
+        await this.enqueue(tx => tx.exec("PRAGMA journal_mode = WAL"));
+        
+        const version = await this.getSchemaVersion();
+        if (version > MIGRATIONS.length) {
+            return Promise.reject<void>(new Error("The database " + this._filePath + " has schema version " + 
+                version + ", which is newer than this version of WebChatty supports."));
+        }
+        for (var i = version; i < MIGRATIONS.length; i++) {
+            const migration = MIGRATIONS[i];
+            const newVersion = i + 1;
+            await this.transaction(async (tx) => {
+                await tx.exec(migration);
+                await tx.exec("PRAGMA user_version = " + newVersion);
+            });
+        }
+    }
+    
+    // Runs 'work' once every earlier statement and transaction has finished, and holds off later ones until it is done.
+    private enqueue<T>(work: (tx: SqliteTransaction) => Promise<T>): Promise<T> {
+        const result = this._queue.then(() => work(new SqliteTransaction(this._db)));
+        this._queue = result.then(() => { return; }, () => { return; });
+        return result;
+    }
+}
+
+// node-sqlite3 expects the placeholder prefix to be included in the names.
+function toParams(values: any): any {
+    const params: any = {};
+    Object.keys(values).forEach(key => {
+        params[":" + key] = values[key];
+    });
+    return params;
+}
@@ -0,0 +1,147 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import * as connectors from "./index";
+
+interface IMessageRow {
+    id: number;
+    sender: string;
+    recipient: string;
+    subject: string;
+    body: string;
+    date: number;
+    unread: number; // 0 or 1
+}
+
+// Each message is stored once and appears in both the sender's sent mailbox and the recipient's inbox until each of 
+// them deletes it.  Messages in the sent mailbox are always read.
+export class SqliteMessageConnector implements spec.IMessageConnector {
+    private _server: api.Server;
+    private _common: connectors.SqliteCommon;
+    
+    constructor(common: connectors.SqliteCommon) {
+        this._common = common;
+    }
+    
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+    }
+    
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+        await this._common.open();
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
+    // Gets a range of messages in the user’s inbox or sent mailbox.  May return fewer than 'take' messages.
+    public async getMessages(credentials: spec.UserCredentials, folder: spec.Mailbox, drop: number, take: number)
+            : Promise<spec.Message[]> {
+        const isInbox = folder === spec.Mailbox.Inbox;
+        const rows: IMessageRow[] = await this._common.query(
+            `SELECT * FROM messages
+            WHERE ${getMailboxCondition(folder)}
+            ORDER BY id DESC
+            LIMIT :take
+            OFFSET :drop`,
+            { username: credentials.username, take: take, drop: drop });
+        return rows.map(x => ({
+            id: x.id,
+            from: x.sender,
+            to: x.recipient,
+            subject: x.subject,
+            date: new Date(x.date),
+            unread: isInbox && x.unread === 1,
+            
+            // convert the plain text to HTML, without parsing Shacktags.
+            body: x.body.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "\n<br>")
+        }));
+    }
+
+    // Gets the total number of messages in the folder as well as the number of unread messages.
+    public async getMessageCount(credentials: spec.UserCredentials, folder: spec.Mailbox)
+            : Promise<spec.MailboxOverview> {
+        const row: { total: number, unread: number } = await this._common.queryOne(
+            `SELECT COUNT(*) AS total, IFNULL(SUM(unread), 0) AS unread FROM messages
+            WHERE ${getMailboxCondition(folder)}`,
+            { username: credentials.username });
+        return {
+            total: row.total,
+            unread: folder === spec.Mailbox.Inbox ? row.unread : 0
+        };
+    }
+    
+    // The caller has previously verified that the recipient username is valid.
+    public async sendMessage(credentials: spec.UserCredentials, recipient: string, subject: string, body: string)
+            : Promise<void> {
+        await this._common.execute(
+            `INSERT INTO messages (sender, recipient, subject, body, date, unread)
+            VALUES (:sender, :recipient, :subject, :body, :date, 1)`,
+            {
+                sender: credentials.username,
+                recipient: recipient,
+                subject: subject,
+                body: body,
+                date: this._server.clock.now().getTime()
+            });
+    }
+    
+    // If 'messageId' is invalid, the implementation may either reject with ERR_INVALID_MESSAGE, or silently ignore it.
+    // We reject with the error.
+    public async markMessageRead(credentials: spec.UserCredentials, messageId: number): Promise<void> {
+        const result = await this._common.execute(
+            `UPDATE messages SET unread = 0
+            WHERE id = :id AND ${getMailboxCondition(spec.Mailbox.Inbox)}`,
+            { id: messageId, username: credentials.username });
+        if (result.changes === 0) {
+            return Promise.reject<void>(spec.apiError("ERR_INVALID_MESSAGE", "Message does not exist."));
+        }
+    }
+    
+    // If 'messageId' is invalid, the implementation may either reject with ERR_INVALID_MESSAGE, or silently ignore it.
+    // We reject with the error.
+    public async deleteMessage(credentials: spec.UserCredentials, messageId: number, mailbox: spec.Mailbox)
+            : Promise<void> {
+        const column = mailbox === spec.Mailbox.Inbox ? "deleted_by_recipient" : "deleted_by_sender";
+        const result = await this._common.execute(
+            `UPDATE messages SET ${column} = 1
+            WHERE id = :id AND ${getMailboxCondition(mailbox)}`,
+            { id: messageId, username: credentials.username });
+        if (result.changes === 0) {
+            return Promise.reject<void>(spec.apiError("ERR_INVALID_MESSAGE", "Message does not exist."));
+        }
+        
+        // once both users have deleted it, nobody can see the message anymore
+        await this._common.execute(
+            "DELETE FROM messages WHERE id = :id AND deleted_by_recipient = 1 AND deleted_by_sender = 1",
+            { id: messageId });
+    }
+}
+
+// SQL matching the messages in the user's mailbox.  The query must have a :username placeholder.
+function getMailboxCondition(folder: spec.Mailbox): string {
+    return folder === spec.Mailbox.Inbox
+        ? "recipient = :username AND deleted_by_recipient = 0"
+        : "sender = :username AND deleted_by_sender = 0";
+}
@@ -0,0 +1,196 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../api/index";
+import * as spec from "../spec/index";
+import * as connectors from "./index";
+
+interface IPostRow {
+    id: number;
+    thread_id: number;
+    parent_id: number;
+    author: string;
+    category: string;
+    date: number;
+    body: string;
+}
+
+export class SqliteThreadConnector implements spec.IThreadConnector {
+    private _server: api.Server;
+    private _common: connectors.SqliteCommon;
+    
+    constructor(common: connectors.SqliteCommon) {
+        this._common = common;
+    }
+    
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    public injectServer(server: api.Server): void {
+        this._server = server;
+    }
+    
+    // Called when the server is about to start listening for requests.
+    public async start(): Promise<void> {
+        await this._common.open();
+    }
+    
+    // Called when the server is shutting down.
+    public async stop(): Promise<void> {
+    }
+    
+    // Gets the list of recently bumped threads, starting with the most recently bumped.  Only non-expired threads
+    // are included.  Up to "maxThreads" of the most recent threads are returned.  "expirationHours" is the number of
+    // hours to retain a thread in this list.
+    public async getActiveThreadIds(maxThreads: number, expirationHours: number): Promise<number[]> {
+        const rows: { id: number }[] = await this._common.query(
+            `SELECT id FROM threads
+            WHERE date > :threshold
+            ORDER BY newest_post_id DESC
+            LIMIT :maxThreads`,
+            {
+                threshold: this._server.clock.now().getTime() - expirationHours * 3600000,
+                maxThreads: maxThreads
+            });
+        return rows.map(x => x.id);
+    }
+    
+    // Gets all posts (including nuked posts) in all specified threads, in no particular order.  The IDs may be 
+    // replies inside the thread, not necessarily the thread root.  If multiple post IDs in the same thread are 
+    // specified, that thread's posts are returned only once.  If a post ID does not exist, then the thread is silently
+    // omitted from the results.
+    public async getThreads(postIds: number[]): Promise<spec.Post[]> {
+        if (postIds.length === 0) {
+            return [];
+        }
+        // the IDs are numbers, so they are safe to put directly into the SQL
+        const rows: IPostRow[] = await this._common.query(
+            `SELECT * FROM posts
+            WHERE thread_id IN (SELECT thread_id FROM posts WHERE id IN (${postIds.map(x => x | 0).join(",")}))`,
+            {});
+        return rows.map(toPost);
+    }
+    
+    // Resolves the new post ID if it worked.  parentId may be 0 to post a new thread.
+    // The caller has already verified that the user is not banned.
+    // May reject with ERR_POST_RATE_LIMIT, ERR_NUKED, ERR_INVALID_PARENT.
+    // The thread connector must arrange for the NewPost event to be sent.  The post body sent in the event data must 
+    // be in HTML (i.e. by calling spec.tagsToHtml(text)).
+    public async postComment(credentials: spec.UserCredentials, parentId: number, text: string): Promise<number> {
+        const date = this._server.clock.now();
+        const result = await this._common.transaction(async (tx) => {
+            var parent: IPostRow = null;
+            if (parentId !== 0) {
+                parent = await tx.queryOne("SELECT * FROM posts WHERE id = :id", { id: parentId });
+                if (parent === null) {
+                    return Promise.reject<{ id: number, parent: IPostRow }>(
+                        spec.apiError("ERR_INVALID_PARENT", "parentId does not exist."));
+                }
+            }
+            
+            // a root post is its own thread, so its thread_id is filled in once its ID is known
+            const insertResult = await tx.execute(
+                `INSERT INTO posts (thread_id, parent_id, author, category, date, body)
+                VALUES (:threadId, :parentId, :author, :category, :date, :body)`,
+                {
+                    threadId: parent === null ? 0 : parent.thread_id,
+                    parentId: parentId,
+                    author: credentials.username,
+                    category: spec.ModerationFlag.OnTopic.toString(),
+                    date: date.getTime(),
+                    body: text
+                });
+            const id = insertResult.lastID;
+            if (parent === null) {
+                await tx.execute("UPDATE posts SET thread_id = :id WHERE id = :id", { id: id });
+                await tx.execute(
+                    "INSERT INTO threads (id, newest_post_id, date) VALUES (:id, :id, :date)",
+                    { id: id, date: date.getTime() });
+            } else {
+                await tx.execute(
+                    "UPDATE threads SET newest_post_id = :id WHERE id = :threadId",
+                    { id: id, threadId: parent.thread_id });
+            }
+            return { id: id, parent: parent };
+        });
+        
+        const post: spec.Post = {
+            id: result.id,
+            threadId: result.parent === null ? result.id : result.parent.thread_id,
+            parentId: parentId,
+            author: credentials.username,
+            category: spec.ModerationFlag.OnTopic,
+            date: date,
+            body: text,
+            lols: []
+        };
+        await this._server.dispatcher.sendEvent(spec.EventType.NewPost, {
+            postId: post.id,
+            post: spec.postToHtml(post),
+            parentAuthor: result.parent === null ? "" : result.parent.author
+        });
+        return post.id;
+    }
+    
+    // Resolves the newest post ID in the database, or 0 if there are no posts.  The newest post may be nuked.
+    public async getNewestPostId(): Promise<number> {
+        const row: { id: number } = await this._common.queryOne("SELECT MAX(id) AS id FROM posts", {});
+        return row.id === null ? 0 : row.id;
+    }
+    
+    // Gets a consecutive range of posts, including nuked posts.
+    public async getPostRange(startId: number, count: number, reverse: boolean): Promise<spec.Post[]> {
+        const rows: IPostRow[] = await this._common.query(
+            `SELECT * FROM posts
+            WHERE id ${reverse ? "<=" : ">="} :startId
+            ORDER BY id ${reverse ? "DESC" : "ASC"}
+            LIMIT :count`,
+            { startId: startId, count: count });
+        return rows.map(toPost);
+    }
+    
+    // Moderator-only action that changes a post's category.  The caller has verified that the user is a moderator.
+    // Rejects with ERR_INVALID_POST if the post ID does not exist.
+    // The thread connector must arrange for the CategoryChange event to be sent.
+    public async setPostCategory(credentials: spec.UserCredentials, postId: number, category: spec.ModerationFlag)
+            : Promise<void> {
+        const result = await this._common.execute(
+            "UPDATE posts SET category = :category WHERE id = :id",
+            { category: category.toString(), id: postId });
+        if (result.changes === 0) {
+            return Promise.reject<void>(spec.apiError("ERR_INVALID_POST", "Post ID does not exist."));
+        }
+        
+        await this._server.dispatcher.sendEvent(spec.EventType.CategoryChange, {
+            postId: postId,
+            category: category
+        });
+    }
+}
+
+function toPost(row: IPostRow): spec.Post {
+    return {
+        id: row.id,
+        threadId: row.thread_id,
+        parentId: row.parent_id,
+        author: row.author,
+        category: <spec.ModerationFlag><any>row.category,
+        date: new Date(row.date),
+        body: row.body,
+        lols: []
+    };
+}
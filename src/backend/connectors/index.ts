@@ -19,9 +19,20 @@
 
 export * from "./MemoryAccountConnector";
 export * from "./MemoryClientDataConnector";
+export * from "./MemoryLolConnector";
 export * from "./MemoryMessageConnector";
+export * from "./MemoryNotificationConnector";
 export * from "./MemorySearchConnector";
+export * from "./MemoryStoryConnector";
 export * from "./MemoryThreadConnector";
 export * from "./ShacknewsCommon";
 export * from "./ShacknewsMessageConnector";
+export * from "./ShacknewsSearchConnector";
 export * from "./ShacknewsThreadConnector";
+export * from "./SqliteAccountConnector";
+export * from "./SqliteClientDataConnector";
+export * from "./SqliteCommon";
+export * from "./SqliteMessageConnector";
+export * from "./SqliteStoryConnector";
+export * from "./SqliteThreadConnector";
+export * from "./SystemClock";
@@ -0,0 +1,33 @@
+// Type definitions for node-sqlite3, covering the parts that WebChatty uses: https://github.com/mapbox/node-sqlite3
+
+///<reference path='../../../typings/node/node.d.ts' />
+
+declare module "sqlite3" {
+    import events = require("events");
+
+    export var OPEN_READONLY: number;
+    export var OPEN_READWRITE: number;
+    export var OPEN_CREATE: number;
+
+    export interface RunResult {
+        lastID: number;
+        changes: number;
+    }
+
+    export class Database extends events.EventEmitter {
+        constructor(filename: string, callback?: (err: Error) => void);
+        constructor(filename: string, mode?: number, callback?: (err: Error) => void);
+
+        close(callback?: (err: Error) => void): void;
+
+        run(sql: string, params: any, callback?: (err: Error) => void): Database;
+        get(sql: string, params: any, callback?: (err: Error, row: any) => void): Database;
+        all(sql: string, params: any, callback?: (err: Error, rows: any[]) => void): Database;
+        exec(sql: string, callback?: (err: Error) => void): Database;
+
+        serialize(callback?: () => void): void;
+        parallelize(callback?: () => void): void;
+
+        configure(option: string, value: any): void;
+    }
+}
@@ -0,0 +1,74 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./webchatty";
+
+// Runs the WebChatty server as described by a JSON configuration file.  Example configuration files are in config/.
+//   node ./build-backend/src/backend/runServer <configuration file>
+
+async function runServer(configFilePath: string): Promise<void> {
+    var loaded: webchatty.LoadedServerConfiguration;
+    try {
+        loaded = await webchatty.loadServerConfigurationFile(configFilePath, 
+            webchatty.createStandardConnectorRegistry());
+    } catch (ex) {
+        console.error((<Error>ex).message);
+        process.exit(1);
+    }
+    
+    const server = new webchatty.Server(loaded.serverConfiguration);
+    try {
+        await server.run();
+    } catch (ex) {
+        console.error((<Error>ex).message || ex.toString());
+        await loaded.context.close();
+        process.exit(1);
+    }
+    
+    // a second signal while the server is stopping is ignored rather than starting another stop
+    var stopping = false;
+    const onSignal = () => {
+        if (stopping) {
+            return;
+        }
+        stopping = true;
+        stopServer(server, loaded).then(() => process.exit(0), exitWithError);
+    };
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+}
+
+async function stopServer(server: webchatty.Server, loaded: webchatty.LoadedServerConfiguration): Promise<void> {
+    try {
+        await server.stop();
+    } finally {
+        await loaded.context.close();
+    }
+}
+
+function exitWithError(ex: any): void {
+    console.error((<Error>ex).message || ex.toString());
+    process.exit(1);
+}
+
+if (process.argv.length !== 3) {
+    console.error("Usage: node runServer <configuration file>");
+    process.exit(1);
+}
+runServer(process.argv[2]).catch(exitWithError);
@@ -17,6 +17,7 @@
 /// <reference path="../../typings/tsd.d.ts" />
 "use strict";
 
+import * as lodash from "lodash";
 import * as webchatty from "./webchatty";
 import * as fs from "fs";
 import * as path from "path";
@@ -42,25 +43,39 @@ function findFilesSyncCore(dir: string, resultArray: string[]): void {
     });
 }
 
+// Runs a single test file against its own server, loaded with the fixture that the file exports (if any).
+async function runTestGroup(filePath: string, results: webchatty.TestResults): Promise<void> {
+    const testModule = require(filePath);
+    const harness = new webchatty.TestHarness(path.basename(filePath, ".test.js"), results);
+    await harness.startServer(testModule.fixture);
+    try {
+        await testModule(harness);
+    } finally {
+        await harness.stopServer();
+    }
+}
+
 async function runTests(): Promise<void> {
-    const harness = new webchatty.TestHarness();
-    
-    const allTestFiles = findFilesSync(path.join(__dirname, "tests"));
-    for (var i = 0; i < allTestFiles.length; i++) {
-        harness.group = path.basename(allTestFiles[i], ".test.js");
-        try {
-            harness.server = harness.newServer(true);
-            await require(allTestFiles[i])(harness);
-            harness.server.stop();
-        } catch (ex) {
-            console.log(ex);
-            process.exit(1);
+    const results = new webchatty.TestResults();
+    const concurrency = parseInt(process.env.WEBCHATTY_TEST_CONCURRENCY || "4", 10);
+    const remainingTestFiles = findFilesSync(path.join(__dirname, "tests"));
+
+    // each group has its own server on its own port, so a few groups can run at once
+    const runNextGroup = async (): Promise<void> => {
+        while (remainingTestFiles.length > 0) {
+            await runTestGroup(remainingTestFiles.shift(), results);
         }
+    };
+    try {
+        await Promise.all(lodash.range(concurrency).map(() => runNextGroup()));
+    } catch (ex) {
+        console.log(ex);
+        process.exit(1);
     }
     
-    console.log("Passed tests: " + harness.numPasses);
-    console.log("Failed tests: " + harness.numFails);
-    process.exit(harness.numFails);
+    console.log("Passed tests: " + results.numPasses);
+    console.log("Failed tests: " + results.numFails);
+    process.exit(results.numFails);
 }
 
 runTests();
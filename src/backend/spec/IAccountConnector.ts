@@ -28,6 +28,9 @@ export interface IAccountConnector {
     // Called when the server is about to start listening for requests.
     start(): Promise<void>;
     
+    // Called when the server is shutting down.
+    stop(): Promise<void>;
+    
     // Resolves a token on successful login.  Resolves null if the username/password are wrong.  Rejects if a problem
     // occurs other than the username/password being wrong.
     tryLogin(username: string, password: string): Promise<spec.UserCredentials>;
@@ -35,10 +38,29 @@ export interface IAccountConnector {
     /// Resolves true if the username exists (case insensitive), false if it does not.
     userExists(username: string): Promise<boolean>;
     
+    // Adds a new account.  Rejects with ERR_ARGUMENT if the username is already taken (case insensitive).
+    createAccount(username: string, password: string, level: spec.UserAccessLevel, registrationDate: Date)
+        : Promise<void>;
+    
     // Resolves a mapping of usernames to registration dates on success.  If usernames is not provided, then all users
     // are returned.  If a provided username does not exist, then it is silently omitted from the results.
     getUserRegistrationDates(usernames?: string[]): Promise<Dictionary<string, Date>>;
     
-    // Resolves true if the username exists and the user is banned.  Resolves false otherwise.
-    isUserBanned(username: string): Promise<boolean>;
+    // Resolves the user's ban if the username exists and the user is currently banned.  Resolves null otherwise.
+    // Bans that have expired are not returned.
+    getActiveBan(username: string): Promise<spec.BanRecord>;
+    
+    // Resolves all bans that are currently in effect, in no particular order.
+    getActiveBans(): Promise<spec.BanRecord[]>;
+    
+    // Moderator-only action that bans a user, replacing any ban that the user already has.  The caller has verified 
+    // that the user is a moderator and that the banned user exists.  'expirationDate' is null for a permanent ban.
+    // The account connector must arrange for the BanChange event to be sent.
+    banUser(credentials: spec.UserCredentials, username: string, reason: string, expirationDate: Date)
+        : Promise<spec.BanRecord>;
+    
+    // Moderator-only action that lifts a user's ban.  The caller has verified that the user is a moderator.  If the
+    // user is not banned, then nothing happens.  Otherwise, the account connector must arrange for the BanChange 
+    // event to be sent.
+    unbanUser(credentials: spec.UserCredentials, username: string): Promise<void>;
 }
@@ -21,9 +21,9 @@ import * as api from "../api/index";
 import * as spec from "./index";
 import { Dictionary } from "../collections/index";
 
-// For all of the methods in this class, if a provided username does not exist, the implementation may do whatever
-// it wants (resolve using some default behavior, or reject) because the API will try not to call the connector without
-// first checking if the username exists.  The same applies for post IDs.
+// For all of the methods in this class, if a provided username does not exist, the implementation must reject with
+// ERR_ARGUMENT.  If a provided post ID does not exist, the implementation may do whatever it wants (resolve using some
+// default behavior, or reject) because the API will try not to call the connector without first checking it.
 export interface IClientDataConnector {
     // Called by the server at startup to provide the connector with a reference to the server instance.
     injectServer(server: api.Server): void;
@@ -31,6 +31,9 @@ export interface IClientDataConnector {
     // Called when the server is about to start listening for requests.
     start(): Promise<void>;
     
+    // Called when the server is shutting down.
+    stop(): Promise<void>;
+    
     // Resolves a list of moderation flags that the user has selected to show.  If the user has never set flag filters,
     // then a default set of filters are returned.
     getModerationFlagFilters(username: string): Promise<spec.ModerationFlag[]>;
@@ -28,6 +28,9 @@ export interface IMessageConnector {
     // Called when the server is about to start listening for requests.
     start(): Promise<void>;
     
+    // Called when the server is shutting down.
+    stop(): Promise<void>;
+    
     // Gets a range of messages in the user’s inbox or sent mailbox.  May return fewer than 'take' messages.
     getMessages(credentials: spec.UserCredentials, folder: spec.Mailbox, skip: number, 
         take: number): Promise<spec.Message[]>;
@@ -0,0 +1,62 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as api from "../api/index";
+import * as spec from "./index";
+import { Dictionary } from "../collections/index";
+
+// Client IDs are 36-character GUIDs chosen by the client.  Usernames have already been verified by the caller using
+// the account connector.
+export interface INotificationConnector {
+    // Called by the server at startup to provide the connector with a reference to the server instance.
+    injectServer(server: api.Server): void;
+
+    // Called when the server is about to start listening for requests.
+    start(): Promise<void>;
+
+    // Called when the server is shutting down.
+    stop(): Promise<void>;
+
+    // Registers a simple notifier client that is not yet attached to an account.  If the client ID is already
+    // registered, then nothing happens.
+    registerNotifierClient(clientId: string, name: string): Promise<void>;
+
+    // Attaches a registered simple notifier client to the given account, replacing any account that it was previously
+    // attached to.  Rejects with ERR_UNKNOWN_CLIENT_ID if the client ID is not registered.
+    attachAccount(clientId: string, username: string): Promise<void>;
+
+    // Registers a rich client (if it isn't already registered) and attaches it to the given account, replacing any
+    // account that it was previously attached to.
+    registerRichClient(clientId: string, name: string, username: string): Promise<void>;
+
+    // Detaches the client from the given account.  Rejects with ERR_UNKNOWN_CLIENT_ID if the client ID is not
+    // registered.  If the client is not attached to this account, then nothing happens.
+    detachAccount(clientId: string, username: string): Promise<void>;
+
+    // Resolves the notifications that have queued up for this client.  If none are queued, then waits until one
+    // arrives or until an implementation-defined timeout expires, in which case an empty list is resolved.
+    // Rejects with ERR_UNKNOWN_CLIENT_ID or ERR_CLIENT_NOT_ASSOCIATED.
+    waitForNotification(clientId: string): Promise<spec.Notification[]>;
+
+    // Resolves the user's notification setup.  If the user has never saved a setup, then all triggers are disabled.
+    getUserSetup(username: string): Promise<spec.NotificationUserSetup>;
+
+    // Overwrites the user's notification setup.  This affects all clients attached to the account.
+    setUserSetup(username: string, setup: spec.NotificationUserSetup): Promise<void>;
+}
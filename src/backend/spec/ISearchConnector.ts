@@ -28,8 +28,18 @@ export interface ISearchConnector {
     // Called when the server is about to start listening for requests.
     start(): Promise<void>;
     
-    // Comment search. At least one of [terms, author, parentAuthor, category] will be provided and the others are null 
-    // (caller verified).
-    search(terms: string, author: string, parentAuthor: string, category: spec.ModerationFlag, offset: number, 
-        limit: number, oldestFirst: boolean): Promise<spec.Post[]>;
+    // Called when the server is shutting down.
+    stop(): Promise<void>;
+    
+    // Comment search. At least one of [terms, author, parentAuthor, category, threadId] will be provided and the other
+    // filters may be null (caller verified).  If only 'terms' is provided, then it has at least one group (caller 
+    // verified).  Nuked posts are never included.
+    search(params: spec.SearchParameters): Promise<spec.SearchResults>;
+    
+    // Rebuilds the search index from the thread connector's posts.  Searches continue to be answered from the existing
+    // index until the rebuild finishes.  If a rebuild is already running, then resolves when that one finishes.
+    rebuildIndex(): Promise<void>;
+    
+    // Reports the size of the search index and the progress of any rebuild.
+    getIndexStatus(): Promise<spec.SearchIndexStatus>;
 }
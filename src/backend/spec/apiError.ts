@@ -17,8 +17,17 @@
 /// <reference path="../../../typings/tsd.d.ts" />
 "use strict";
 
-export function apiError(code: string, message: string) {
-    var error = new Error(message);
+// An error that is reported to the client.  The name is the error code, such as "ERR_ARGUMENT".
+export interface ApiError extends Error {
+    fields?: { [name: string]: string }; // extra properties to include in the error response
+}
+
+// 'fields' optionally supplies extra properties to include in the error response alongside the code and message.
+export function apiError(code: string, message: string, fields?: { [name: string]: string }): ApiError {
+    const error: ApiError = new Error(message);
     error.name = code;
+    if (typeof fields !== "undefined") {
+        error.fields = fields;
+    }
     return error;
 }
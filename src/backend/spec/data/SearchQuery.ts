@@ -0,0 +1,40 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as spec from "../index";
+
+export enum SearchTermType {
+    Word = <any>"word", // matches posts containing a word with the same stem
+    Phrase = <any>"phrase", // matches posts containing the words in this order, ignoring case and punctuation
+    Author = <any>"author",
+    Category = <any>"category"
+}
+
+export class SearchTerm {
+    type: SearchTermType;
+    value: string; // the word, phrase, or author.  for categories, the category's name.
+    category: spec.ModerationFlag; // null unless type is Category
+}
+
+// A parsed search query, as produced by spec.parseSearchQuery().  A post matches if, for every group, it matches at
+// least one of the group's terms, and it matches none of the exclusions.
+export class SearchQuery {
+    groups: SearchTerm[][];
+    exclusions: SearchTerm[];
+}
@@ -21,5 +21,6 @@ export enum EventType {
     NewPost = <any>"newPost",
     CategoryChange = <any>"categoryChange",
     ServerMessage = <any>"serverMessage",
-    LolCountsUpdate = <any>"lolCountsUpdate"
+    LolCountsUpdate = <any>"lolCountsUpdate",
+    BanChange = <any>"banChange"
 }
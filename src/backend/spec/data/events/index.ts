@@ -17,9 +17,11 @@
 /// <reference path="../../../../../typings/tsd.d.ts" />
 "use strict";
 
+export * from "./BanChangeEventData";
 export * from "./CategoryChangeEventData";
 export * from "./Event";
 export * from "./EventType";
 export * from "./IEventData";
+export * from "./LolCountsUpdateEventData";
 export * from "./NewPostEventData";
 export * from "./ServerMessageEventData";
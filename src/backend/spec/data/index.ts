@@ -19,12 +19,23 @@
 
 export * from "./events/index";
 export * from "./v1/index";
+export * from "./BanRecord";
+export * from "./HtmlResponse";
 export * from "./LolCount";
+export * from "./LolTag";
 export * from "./Mailbox";
 export * from "./MailboxOverview";
 export * from "./MarkedPostType";
 export * from "./Message";
 export * from "./ModerationFlag";
+export * from "./Notification";
+export * from "./NotificationUserSetup";
 export * from "./Post";
+export * from "./SearchIndexStatus";
+export * from "./SearchParameters";
+export * from "./SearchQuery";
+export * from "./SearchResults";
+export * from "./SearchSort";
+export * from "./Story";
 export * from "./UserAccessLevel";
 export * from "./UserCredentials";
@@ -0,0 +1,43 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as spec from "./../../index";
+import * as v1 from "./index";
+
+// An entry in the /v1/stories.json list.  The old API sent the preview as the body and left thread_id blank here.
+export class V1StorySummary {
+    public body: string;
+    public comment_count: number;
+    public date: string;
+    public id: number;
+    public name: string;
+    public preview: string;
+    public url: string;
+    public thread_id = "";
+    
+    constructor(story: spec.Story, commentCount: number) {
+        this.body = story.preview;
+        this.comment_count = commentCount;
+        this.date = v1.toV1Date(story.date);
+        this.id = story.id;
+        this.name = story.title;
+        this.preview = story.preview;
+        this.url = story.url;
+    }
+}
@@ -19,9 +19,13 @@
 
 export * from "./toV1Comment";
 export * from "./toV1Date";
+export * from "./toV1MessageDate";
 export * from "./V1Comment";
 export * from "./V1Error";
 export * from "./V1ModerationFlag";
 export * from "./V1Page";
 export * from "./V1SearchResult";
+export * from "./V1Story";
+export * from "./V1StorySummary";
+export * from "./V1TextResponse";
 export * from "./V1Thread";
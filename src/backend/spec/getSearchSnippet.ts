@@ -0,0 +1,75 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as spec from "./index";
+
+const SNIPPET_WORDS = 30;
+
+// Gets the stems of the words that the query is looking for.  Filters and exclusions don't contribute.
+export function getSearchQueryStems(query: spec.SearchQuery): string[] {
+    if (query === null) {
+        return [];
+    }
+    return lodash.chain(query.groups)
+        .flatten<spec.SearchTerm>()
+        .filter(x => x.type === spec.SearchTermType.Word || x.type === spec.SearchTermType.Phrase)
+        .map(x => spec.getSearchWords(x.value).map(spec.getWordStem))
+        .flatten<string>()
+        .uniq()
+        .value();
+}
+
+// Produces a short HTML excerpt of the post for a search result: the stretch of text with the most matches for the
+// query, with each matching word wrapped in <b> tags.  Spoilers are left out.  'query' may be null, in which case 
+// the excerpt is the start of the post.
+export function getSearchSnippet(post: spec.HtmlPost, query: spec.SearchQuery): string {
+    // tagsToHtml() escapes the post text, so what's left after removing the tags is safe to use as HTML
+    const text = spec.stripHtmlTags(spec.stripSpoilers(post.body).replace(/</g, " <"));
+    const tokens = text.split(/\s+/).filter(x => x.length > 0);
+    const stems = getSearchQueryStems(query);
+    const isMatch = tokens.map(token => {
+        const words = spec.getSearchWords(token);
+        return words.length > 0 && stems.indexOf(spec.getWordStem(words[0])) !== -1;
+    });
+    
+    // slide a window across the text, keeping the earliest one with the most matches
+    var bestStart = 0;
+    var bestCount = -1;
+    var count = 0;
+    for (var i = 0; i < tokens.length; i++) {
+        count += isMatch[i] ? 1 : 0;
+        if (i >= SNIPPET_WORDS) {
+            count -= isMatch[i - SNIPPET_WORDS] ? 1 : 0;
+        }
+        if (i >= SNIPPET_WORDS - 1 || i === tokens.length - 1) {
+            if (count > bestCount) {
+                bestCount = count;
+                bestStart = Math.max(0, i - SNIPPET_WORDS + 1);
+            }
+        }
+    }
+    
+    const end = Math.min(tokens.length, bestStart + SNIPPET_WORDS);
+    const words: string[] = [];
+    for (var j = bestStart; j < end; j++) {
+        words.push(isMatch[j] ? "<b>" + tokens[j] + "</b>" : tokens[j]);
+    }
+    return (bestStart > 0 ? "... " : "") + words.join(" ") + (end < tokens.length ? " ..." : "");
+}
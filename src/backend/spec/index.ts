@@ -19,12 +19,20 @@
 
 export * from "./data/index";
 export * from "./apiError";
+export * from "./getSearchSnippet";
+export * from "./getSearchWords";
 export * from "./getWordStem";
 export * from "./IAccountConnector";
 export * from "./IClientDataConnector";
+export * from "./IClock";
+export * from "./ILolConnector";
 export * from "./IMessageConnector";
+export * from "./INotificationConnector";
 export * from "./ISearchConnector";
+export * from "./IStoryConnector";
 export * from "./IThreadConnector";
+export * from "./parseSearchQuery";
 export * from "./Signal";
 export * from "./stripHtmlTags";
+export * from "./stripSpoilers";
 export * from "./tagsToHtml";
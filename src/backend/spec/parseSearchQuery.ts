@@ -0,0 +1,145 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as spec from "./index";
+
+const CATEGORIES = ["ontopic", "nws", "stupid", "political", "tangent", "informative"];
+
+interface IToken {
+    isOr: boolean;
+    isExcluded: boolean;
+    term: spec.SearchTerm;
+}
+
+// Parses the search terms syntax:
+//   word           posts containing the word (or another form of it, e.g. "posting" finds "posted")
+//   "some phrase"  posts containing the exact phrase (ignoring case and punctuation)
+//   a OR b         posts matching either side.  OR must be uppercase and any number of terms can be chained.
+//   -word          posts not matching the term.  also works for phrases and filters.
+//   author:name    posts by the author.  use author:"some name" for names containing spaces.
+//   category:flag  posts with the moderation flag, other than "nuked"
+// Terms separated by spaces must all match.  Throws ERR_ARGUMENT if the query is malformed.
+export function parseSearchQuery(text: string): spec.SearchQuery {
+    const tokens = tokenize(text);
+    const query: spec.SearchQuery = { groups: [], exclusions: [] };
+    
+    for (var i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.isOr) {
+            if (i === 0 || i === tokens.length - 1 || tokens[i + 1].isOr) {
+                throw queryError("OR must appear between two search terms.");
+            } else if (tokens[i - 1].isExcluded || tokens[i + 1].isExcluded) {
+                throw queryError("An excluded term cannot be part of an OR.");
+            }
+            continue;
+        }
+        
+        if (token.isExcluded) {
+            query.exclusions.push(token.term);
+        } else if (i > 0 && tokens[i - 1].isOr) {
+            query.groups[query.groups.length - 1].push(token.term);
+        } else {
+            query.groups.push([token.term]);
+        }
+    }
+    
+    return query;
+}
+
+function tokenize(text: string): IToken[] {
+    const tokens: IToken[] = [];
+    var i = 0;
+    
+    while (i < text.length) {
+        if (isWhitespace(text[i])) {
+            i++;
+            continue;
+        }
+        
+        const isExcluded = text[i] === "-";
+        if (isExcluded) {
+            i++;
+            if (i === text.length || isWhitespace(text[i])) {
+                throw queryError("A \"-\" must be immediately followed by the term to exclude.");
+            }
+        }
+        
+        var type = spec.SearchTermType.Word;
+        const lcRest = text.substr(i).toLowerCase();
+        if (lcRest.indexOf("author:") === 0) {
+            type = spec.SearchTermType.Author;
+            i += "author:".length;
+        } else if (lcRest.indexOf("category:") === 0) {
+            type = spec.SearchTermType.Category;
+            i += "category:".length;
+        }
+        
+        var value: string;
+        var isQuoted = text[i] === "\"";
+        if (isQuoted) {
+            const end = text.indexOf("\"", i + 1);
+            if (end === -1) {
+                throw queryError("The search has an unmatched quotation mark.");
+            }
+            value = text.substring(i + 1, end).replace(/\s+/g, " ").trim();
+            i = end + 1;
+        } else {
+            const start = i;
+            while (i < text.length && !isWhitespace(text[i]) && text[i] !== "\"") {
+                i++;
+            }
+            value = text.substring(start, i);
+        }
+        
+        if (value === "") {
+            throw queryError(type === spec.SearchTermType.Word ? "The search has an empty phrase."
+                : "\"" + type + ":\" must be immediately followed by a value.");
+        }
+        
+        if (type === spec.SearchTermType.Word && !isQuoted && !isExcluded && value === "OR") {
+            tokens.push({ isOr: true, isExcluded: false, term: null });
+            continue;
+        }
+        
+        if (type === spec.SearchTermType.Word && isQuoted) {
+            type = spec.SearchTermType.Phrase;
+        }
+        
+        var category: spec.ModerationFlag = null;
+        if (type === spec.SearchTermType.Category) {
+            value = value.toLowerCase();
+            if (CATEGORIES.indexOf(value) === -1) {
+                throw queryError("\"category:\" must be followed by one of: " + CATEGORIES.join(", ") + ".");
+            }
+            category = <spec.ModerationFlag><any>value;
+        }
+        
+        tokens.push({ isOr: false, isExcluded: isExcluded, term: { type: type, value: value, category: category } });
+    }
+    
+    return tokens;
+}
+
+function isWhitespace(ch: string): boolean {
+    return /\s/.test(ch);
+}
+
+function queryError(message: string): Error {
+    return spec.apiError("ERR_ARGUMENT", "Invalid search terms: " + message);
+}
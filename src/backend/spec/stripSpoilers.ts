@@ -0,0 +1,58 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+const SPOILER_START = "<span class=\"jt_spoiler\"";
+
+// Removes the contents of spoiler tags from HTML produced by tagsToHtml(), so that text derived from a post (like a 
+// search snippet) doesn't give away what the author hid.  Spoilers may contain other tags, including other spans.
+// Each spoiler is replaced with 'replacement', or a space by default.
+export function stripSpoilers(html: string, replacement?: string): string {
+    if (typeof replacement === "undefined") {
+        replacement = " ";
+    }
+    
+    var result = "";
+    var i = 0;
+    
+    while (true) {
+        const start = html.indexOf(SPOILER_START, i);
+        if (start === -1) {
+            return result + html.substr(i);
+        }
+        result += html.substring(i, start) + replacement;
+        
+        // find the matching </span>, skipping over any spans nested inside
+        var depth = 0;
+        i = start;
+        while (i < html.length) {
+            if (html.substr(i, 5) === "<span") {
+                depth++;
+                i += 5;
+            } else if (html.substr(i, 7) === "</span>") {
+                depth--;
+                i += 7;
+                if (depth === 0) {
+                    break;
+                }
+            } else {
+                i++;
+            }
+        }
+    }
+}
@@ -0,0 +1,130 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("ban as non-moderator",
+        supertest(harness.server.app)
+        .post("/v3/banUser")
+        .type("form")
+        .send({ username: "user", password: "pass", target: "mod", reason: "mutiny" })
+        .expect(harness.isError("ERR_NOT_MODERATOR"))
+    );
+    
+    await harness.test("ban nonexistent user",
+        supertest(harness.server.app)
+        .post("/v3/banUser")
+        .type("form")
+        .send({ username: "mod", password: "pass", target: "nobody", reason: "spam" })
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+    
+    await harness.test("ban user",
+        supertest(harness.server.app)
+        .post("/v3/banUser")
+        .type("form")
+        .send({ username: "mod", password: "pass", target: "user", reason: "spam", durationHours: 24 })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.result, "success");
+            should.strictEqual(res.body.ban.username, "user");
+            should.strictEqual(res.body.ban.moderator, "mod");
+            should.strictEqual(res.body.ban.reason, "spam");
+            const durationMsec = Date.parse(res.body.ban.expirationDate) - Date.parse(res.body.ban.startDate);
+            should.strictEqual(durationMsec, 24 * 3600000);
+        })
+    );
+    
+    await harness.test("ban change event",
+        supertest(harness.server.app)
+        .get("/v2/pollForEvent?lastEventId=0")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.events.length, 1);
+            should.strictEqual(res.body.events[0].eventType, "banChange");
+            should.strictEqual(res.body.events[0].eventData.username, "user");
+            should.strictEqual(res.body.events[0].eventData.isBanned, true);
+            should.strictEqual(res.body.events[0].eventData.reason, "spam");
+        })
+    );
+    
+    await harness.test("post while banned",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, text: "new post" })
+        .expect(harness.isError("ERR_BANNED"))
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.reason, "spam");
+            should.strictEqual(typeof res.body.expirationDate, "string");
+        })
+    );
+    
+    await harness.test("send message while banned",
+        supertest(harness.server.app)
+        .post("/v2/sendMessage")
+        .type("form")
+        .send({ username: "user", password: "pass", to: "mod", subject: "hi", body: "unban me" })
+        .expect(harness.isError("ERR_BANNED"))
+    );
+    
+    await harness.test("get bans",
+        supertest(harness.server.app)
+        .post("/v3/getBans")
+        .type("form")
+        .send({ username: "mod", password: "pass" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.bans.length, 1);
+            should.strictEqual(res.body.bans[0].username, "user");
+        })
+    );
+    
+    await harness.test("permanent ban",
+        supertest(harness.server.app)
+        .post("/v3/banUser")
+        .type("form")
+        .send({ username: "mod", password: "pass", target: "user", reason: "more spam" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.ban.expirationDate, null);
+        })
+    );
+    
+    await harness.test("unban user",
+        supertest(harness.server.app)
+        .post("/v3/unbanUser")
+        .type("form")
+        .send({ username: "mod", password: "pass", target: "user" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("post after unban",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, text: "new post" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 1 })
+    );
+};
@@ -0,0 +1,126 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("read without password",
+        supertest(harness.server.app)
+        .get("/v2/clientData/getMarkedPosts?username=user")
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+
+    await harness.test("read with wrong password",
+        supertest(harness.server.app)
+        .post("/v2/clientData/getMarkedPosts")
+        .type("form")
+        .send({ username: "user", password: "invalidpassword" })
+        .expect(harness.isError("ERR_INVALID_LOGIN"))
+    );
+
+    await harness.test("write without password",
+        supertest(harness.server.app)
+        .post("/v2/clientData/markPost")
+        .type("form")
+        .send({ username: "user", postId: 1, type: "pinned" })
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+
+    await harness.test("write with wrong password",
+        supertest(harness.server.app)
+        .post("/v2/clientData/markPost")
+        .type("form")
+        .send({ username: "mod", password: "invalidpassword", postId: 1, type: "pinned" })
+        .expect(harness.isError("ERR_INVALID_LOGIN"))
+    );
+
+    await harness.test("mark post",
+        supertest(harness.server.app)
+        .post("/v2/clientData/markPost")
+        .type("form")
+        .send({ username: "user", password: "pass", postId: 1, type: "pinned" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+
+    await harness.test("get marked posts",
+        supertest(harness.server.app)
+        .post("/v2/clientData/getMarkedPosts")
+        .type("form")
+        .send({ username: "user", password: "pass" })
+        .expect(200)
+        .expect({ markedPosts: [{ id: 1, type: "pinned" }] })
+    );
+    
+    await harness.test("get client data before it is set",
+        supertest(harness.server.app)
+        .post("/v2/clientData/getClientData")
+        .type("form")
+        .send({ username: "user", password: "pass", client: "test" })
+        .expect(200)
+        .expect({ data: "" })
+    );
+
+    await harness.test("set client data without client",
+        supertest(harness.server.app)
+        .post("/v2/clientData/setClientData")
+        .type("form")
+        .send({ username: "user", password: "pass", data: "abc" })
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+
+    await harness.test("set client data that is too long",
+        supertest(harness.server.app)
+        .post("/v2/clientData/setClientData")
+        .type("form")
+        .send({ username: "user", password: "pass", client: "test", data: new Array(100002).join("x") })
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+
+    await harness.test("set client data",
+        supertest(harness.server.app)
+        .post("/v2/clientData/setClientData")
+        .type("form")
+        .send({ username: "user", password: "pass", client: "test", data: new Array(100001).join("x") })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+
+    await harness.test("get client data",
+        supertest(harness.server.app)
+        .post("/v2/clientData/getClientData")
+        .type("form")
+        .send({ username: "user", password: "pass", client: "test" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.data.length, 100000);
+        })
+    );
+
+    await harness.test("client data is separate per client",
+        supertest(harness.server.app)
+        .post("/v2/clientData/getClientData")
+        .type("form")
+        .send({ username: "user", password: "pass", client: "other" })
+        .expect(200)
+        .expect({ data: "" })
+    );
+};
@@ -0,0 +1,108 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+const fixture: webchatty.TestFixture = {
+    users: [
+        {
+            username: "veteran",
+            password: "pass",
+            level: webchatty.UserAccessLevel.User,
+            registrationDate: new Date("2005-01-01T00:00:00Z")
+        }
+    ],
+    threads: [
+        { name: "thread", author: "user", body: "this thread will expire" }
+    ]
+};
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("thread is active",
+        harness.request()
+        .get("/v2/getChatty")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(lodash.pluck(res.body.threads, "threadId"), [harness.postId("thread")]);
+        })
+    );
+    
+    await harness.testAsync("thread expires after 18 hours", async () => {
+        harness.clock.advance(18 * 3600000 + 1000);
+        await harness.request()
+            .get("/v2/getChatty")
+            .expect(200)
+            .expect({ threads: [] });
+    });
+    
+    await harness.testAsync("ten-year users", async () => {
+        harness.clock.set(new Date("2015-06-01T00:00:00Z"));
+        await harness.request()
+            .get("/v2/getAllTenYearUsers")
+            .expect(200)
+            .expect((res: supertest.Response) => {
+                should.deepEqual(lodash.pluck(res.body.users, "username").sort(), ["admin", "veteran"]);
+            });
+    });
+    
+    await harness.testAsync("ten-year users a decade later", async () => {
+        harness.clock.set(new Date("2025-06-01T00:00:00Z"));
+        await harness.request()
+            .get("/v2/getAllTenYearUsers")
+            .expect(200)
+            .expect((res: supertest.Response) => {
+                should.deepEqual(lodash.pluck(res.body.users, "username").sort(), ["admin", "mod", "user", "veteran"]);
+            });
+    });
+    
+    await harness.testAsync("temporary ban expires", async () => {
+        await harness.postAs("mod", "/v3/banUser", { target: "veteran", reason: "test", durationHours: 1 })
+            .expect(200);
+        await harness.postAs("mod", "/v3/getBans", {})
+            .expect(200)
+            .expect((res: supertest.Response) => {
+                should.deepEqual(lodash.pluck(res.body.bans, "username"), ["veteran"]);
+            });
+        harness.clock.advance(3600000);
+        await harness.postAs("mod", "/v3/getBans", {})
+            .expect(200)
+            .expect({ bans: [] });
+    });
+    
+    await harness.testAsync("waitForEvent times out after 20 seconds", async () => {
+        const dispatcher = harness.server.dispatcher;
+        var resolved = false;
+        const events = dispatcher.waitForEvent(dispatcher.getNewestEventId()).then(x => {
+            resolved = true;
+            return x;
+        });
+        harness.clock.advance(19999);
+        dispatcher.expireEventWaiters();
+        await new Promise<void>(resolve => setImmediate(resolve));
+        should.strictEqual(resolved, false);
+        harness.clock.advance(1);
+        dispatcher.expireEventWaiters();
+        should.deepEqual(await events, []);
+    });
+};
+
+module.exports.fixture = fixture;
@@ -0,0 +1,166 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as fs from "fs";
+import * as path from "path";
+import * as webchatty from "./../webchatty";
+import * as should from "should";
+
+const configDir = path.join(__dirname, "..", "..", "..", "..", "config");
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const registry = webchatty.createStandardConnectorRegistry();
+    const build = (obj: any, env?: { [name: string]: string }) => 
+        webchatty.buildServerConfiguration(obj, registry, env || {}, harness.clock).serverConfiguration;
+    const expectConfigError = (obj: any, message: string) => {
+        var error: Error = null;
+        try {
+            build(obj);
+        } catch (ex) {
+            error = ex;
+        }
+        should.notStrictEqual(error, null);
+        should.strictEqual(error.name, "ERR_CONFIG");
+        should.strictEqual(error.message, message);
+    };
+    
+    await harness.testAsync("defaults", async () => {
+        const config = build({});
+        should.strictEqual(config.httpPort, 8080);
+        should.strictEqual(config.logFilePath, null);
+        should.strictEqual(config.logConsoleLevel, webchatty.LogLevel.Debug);
+        should.strictEqual(config.rateLimits.post.maxRequests, 10);
+        should.strictEqual(config.trustProxy, 0);
+        should.strictEqual(config.clock, harness.clock);
+        should.ok(config.accountConnector instanceof webchatty.MemoryAccountConnector);
+        should.ok(config.threadConnector instanceof webchatty.MemoryThreadConnnector);
+        should.ok(config.storyConnector instanceof webchatty.MemoryStoryConnector);
+    });
+    
+    await harness.testAsync("settings", async () => {
+        const config = build({
+            httpPort: 1234,
+            logConsoleLevel: "Critical",
+            trustProxy: "loopback, 10.0.0.0/8",
+            rateLimits: { read: null, write: { maxRequests: 5, windowSeconds: 10 } },
+            connectors: { thread: { type: "sqlite" } },
+            sqlite: { databaseFilePath: ":memory:" }
+        });
+        should.strictEqual(config.httpPort, 1234);
+        should.strictEqual(config.logConsoleLevel, webchatty.LogLevel.Critical);
+        should.strictEqual(config.trustProxy, "loopback, 10.0.0.0/8");
+        should.strictEqual(config.rateLimits.read, null);
+        should.deepEqual(config.rateLimits.write, { maxRequests: 5, windowSeconds: 10 });
+        should.strictEqual(config.rateLimits.message.maxRequests, 10);
+        should.ok(config.threadConnector instanceof webchatty.SqliteThreadConnector);
+        should.strictEqual(build({ rateLimits: null }).rateLimits, null);
+    });
+    
+    await harness.testAsync("environment variables", async () => {
+        const config = build({
+            httpPort: "${PORT}",
+            logFilePath: "${LOG_DIR:-/var/log}/webchatty-$${HOME}.log",
+            trustProxy: "${TRUST_PROXY}"
+        }, { PORT: "1234", TRUST_PROXY: "2" });
+        should.strictEqual(config.httpPort, 1234);
+        should.strictEqual(config.logFilePath, "/var/log/webchatty-${HOME}.log");
+        should.strictEqual(config.trustProxy, 2);
+    });
+    
+    await harness.testAsync("missing environment variable", async () => {
+        expectConfigError({ connectors: { account: { type: "memory", accounts: [{ username: "admin", 
+            password: "${ADMIN_PASSWORD}" }] } } }, 
+            "The setting \"connectors.account.accounts[0].password\" uses the environment variable " + 
+            "\"ADMIN_PASSWORD\", which must be provided.");
+    });
+    
+    await harness.testAsync("unknown connector type", async () => {
+        expectConfigError({ connectors: { search: { type: "elastic" } } },
+            "The setting \"connectors.search.type\" must be one of: memory, shacknews.");
+    });
+    
+    await harness.testAsync("unrecognized setting", async () => {
+        expectConfigError({ httpPort: 8080, logfilePath: "./webchatty.log" },
+            "The setting \"logfilePath\" is not a recognized setting.");
+        expectConfigError({ connectors: { search: { type: "memory", maxPost: 5 } } },
+            "The setting \"connectors.search.maxPost\" is not a recognized setting.");
+    });
+    
+    await harness.testAsync("invalid values", async () => {
+        expectConfigError({ httpPort: 99999 }, "The setting \"httpPort\" must be less than or equal to 65535.");
+        expectConfigError({ trustProxy: true }, "The setting \"trustProxy\" must be an integer.");
+        expectConfigError({ trustProxy: "loopback, proxy.local" }, "The setting \"trustProxy\" must be a number of " + 
+            "proxies or a comma-separated list of proxy addresses, such as \"loopback, 10.0.0.0/8\".");
+        expectConfigError({ connectors: { thread: { type: "sqlite" } } }, 
+            "The setting \"sqlite\" must be provided.");
+        expectConfigError([], "The configuration must be an object.");
+    });
+    
+    await harness.testAsync("registered connector with shared object", async () => {
+        const customRegistry = webchatty.createStandardConnectorRegistry();
+        var numCreated = 0;
+        customRegistry.register(webchatty.ConnectorKind.Story, "custom", (options, context) => {
+            context.getShared("custom", () => ++numCreated);
+            context.getShared("custom", () => ++numCreated);
+            return new webchatty.MemoryStoryConnector();
+        });
+        webchatty.buildServerConfiguration({ connectors: { story: { type: "custom" } }, custom: {} }, customRegistry, 
+            {}, harness.clock);
+        should.strictEqual(numCreated, 1);
+    });
+    
+    await harness.testAsync("example configuration files", async () => {
+        const env = {
+            WEBCHATTY_ADMIN_PASSWORD: "admin", WEBCHATTY_MOD_PASSWORD: "mod", SHACK_SQL_HOSTNAME: "localhost",
+            SHACK_SQL_PORT: "3306", SHACK_SQL_USERNAME: "shack", SHACK_SQL_PASSWORD: "shack", 
+            SHACK_SQL_DATABASE: "shack"
+        };
+        fs.readdirSync(configDir).forEach(filename => {
+            build(JSON.parse(fs.readFileSync(path.join(configDir, filename), "utf8")), env);
+        });
+    });
+    
+    await harness.testAsync("closing the context closes the MySQL pool", async () => {
+        const loaded = webchatty.buildServerConfiguration({
+            connectors: { search: { type: "shacknews" } },
+            shacknews: { hostname: "localhost", port: 3306, username: "shack", password: "shack", database: "shack" }
+        }, registry, {}, harness.clock);
+        const connector = loaded.serverConfiguration.searchConnector;
+        connector.injectServer(harness.server);
+        await loaded.context.close();
+        try {
+            await connector.getIndexStatus();
+            should.fail(null, null, "The pool was still open.");
+        } catch (ex) {
+            should.notStrictEqual((<Error>ex).message.indexOf("closed"), -1);
+        }
+    });
+    
+    await harness.testAsync("load configuration file", async () => {
+        const loaded = await webchatty.loadServerConfigurationFile(path.join(configDir, "example.json"), registry);
+        should.strictEqual(loaded.serverConfiguration.logFilePath, "./webchatty.log");
+        await loaded.context.close();
+        try {
+            await webchatty.loadServerConfigurationFile(path.join(configDir, "missing.json"), registry);
+            should.fail(null, null, "The missing file was loaded.");
+        } catch (ex) {
+            should.strictEqual((<Error>ex).name, "ERR_CONFIG");
+        }
+    });
+};
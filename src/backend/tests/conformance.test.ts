@@ -0,0 +1,53 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const suite = new webchatty.ConnectorConformanceSuite(harness);
+    
+    await suite.testAccountConnector("MemoryAccountConnector", 
+        accounts => new webchatty.MemoryAccountConnector(accounts));
+    await suite.testAccountConnector("SqliteAccountConnector", 
+        accounts => new webchatty.SqliteAccountConnector(new webchatty.SqliteCommon(":memory:"), accounts));
+    
+    await suite.testClientDataConnector("MemoryClientDataConnector", 
+        () => new webchatty.MemoryClientDataConnector());
+    await suite.testClientDataConnector("SqliteClientDataConnector", 
+        () => new webchatty.SqliteClientDataConnector(new webchatty.SqliteCommon(":memory:")));
+    
+    await suite.testMessageConnector("MemoryMessageConnector", 
+        () => new webchatty.MemoryMessageConnector());
+    await suite.testMessageConnector("SqliteMessageConnector", 
+        () => new webchatty.SqliteMessageConnector(new webchatty.SqliteCommon(":memory:")));
+    
+    await suite.testThreadConnector("MemoryThreadConnector", 
+        () => new webchatty.MemoryThreadConnnector());
+    await suite.testThreadConnector("SqliteThreadConnector", 
+        () => new webchatty.SqliteThreadConnector(new webchatty.SqliteCommon(":memory:")));
+    
+    await suite.testSearchConnector("MemorySearchConnector", 
+        () => new webchatty.MemorySearchConnector({ maxPosts: 100, prunePosts: 50, snapshotFilePath: null, 
+            snapshotIntervalMinutes: 10 }));
+    
+    await suite.testStoryConnector("MemoryStoryConnector", 
+        () => new webchatty.MemoryStoryConnector());
+    await suite.testStoryConnector("SqliteStoryConnector", 
+        () => new webchatty.SqliteStoryConnector(new webchatty.SqliteCommon(":memory:")));
+};
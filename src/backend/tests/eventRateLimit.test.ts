@@ -0,0 +1,88 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+import * as ws from "ws";
+
+const fixture: webchatty.TestFixture = {
+    rateLimits: {
+        read: { maxRequests: 2, windowSeconds: 60 },
+        write: null,
+        post: null,
+        message: null
+    }
+};
+
+// connects to the event socket from 10.0.0.1 and resolves the first message, parsed from JSON.  an old epoch makes the
+// server send an error message right away, so the test doesn't need to wait for an event.
+function receiveFirstMessage(port: number): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        const socket = new ws("ws://localhost:" + port + "/v3/eventSocket?lastEventId=0&epoch=0000000000000000",
+            { headers: { "X-Forwarded-For": "10.0.0.1" } });
+        const timer = setTimeout(() => {
+            socket.terminate();
+            reject(new Error("Timed out."));
+        }, 5000);
+        socket.on("message", (data: string) => {
+            clearTimeout(timer);
+            socket.close();
+            resolve(JSON.parse(data));
+        });
+        socket.on("error", (err: Error) => {
+            clearTimeout(timer);
+            reject(err);
+        });
+    });
+}
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const port = harness.server.getPort();
+    
+    await harness.testAsync("event socket within the limit", async () => {
+        should.strictEqual((await receiveFirstMessage(port)).code, "ERR_TOO_MANY_EVENTS");
+    });
+    
+    await harness.test("event stream within the limit",
+        supertest(harness.server.app)
+        .get("/v3/eventStream?lastEventId=0&epoch=0000000000000000")
+        .set("X-Forwarded-For", "10.0.0.1")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.notStrictEqual(res.text.indexOf("ERR_TOO_MANY_EVENTS"), -1);
+        })
+    );
+    
+    await harness.test("event stream over the limit",
+        supertest(harness.server.app)
+        .get("/v3/eventStream")
+        .set("X-Forwarded-For", "10.0.0.1")
+        .expect(harness.isError("ERR_RATE_LIMIT"))
+        .expect((res: supertest.Response) => {
+            should.ok(parseInt(res.get("Retry-After"), 10) >= 1);
+        })
+    );
+    
+    await harness.testAsync("event socket over the limit", async () => {
+        should.strictEqual((await receiveFirstMessage(port)).code, "ERR_RATE_LIMIT");
+    });
+};
+
+module.exports.fixture = fixture;
@@ -0,0 +1,83 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+import * as ws from "ws";
+
+// connects to the event socket and resolves the first 'count' messages, parsed from JSON.  rejects if they don't
+// arrive within 5 seconds.  'port' is the port that the server is listening on.
+function receiveMessages(port: number, query: string, count: number, onOpen?: () => void): Promise<any[]> {
+    return new Promise<any[]>((resolve, reject) => {
+        const socket = new ws("ws://localhost:" + port + "/v3/eventSocket" + query);
+        const messages: any[] = [];
+        const timer = setTimeout(() => {
+            socket.terminate();
+            reject(new Error("Timed out after receiving " + messages.length + " message(s)."));
+        }, 5000);
+        socket.on("open", () => {
+            if (typeof onOpen !== "undefined") {
+                onOpen();
+            }
+        });
+        socket.on("message", (data: string) => {
+            messages.push(JSON.parse(data));
+            if (messages.length === count) {
+                clearTimeout(timer);
+                socket.close();
+                resolve(messages);
+            }
+        });
+        socket.on("error", (err: Error) => {
+            clearTimeout(timer);
+            reject(err);
+        });
+    });
+}
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const port = harness.server.getPort();
+    
+    await harness.testAsync("old epoch", async () => {
+        const messages = await receiveMessages(port, "?lastEventId=0&epoch=0000000000000000", 1);
+        should.strictEqual(messages[0].error, true);
+        should.strictEqual(messages[0].code, "ERR_TOO_MANY_EVENTS");
+    });
+    
+    await harness.testAsync("receive new event", async () => {
+        const messages = await receiveMessages(port, "", 1, () => {
+            supertest(harness.server.app)
+                .post("/v2/postComment")
+                .type("form")
+                .send({ username: "user", password: "pass", parentId: 0, text: "new post" })
+                .end(() => {});
+        });
+        should.strictEqual(messages[0].eventId, 1);
+        should.strictEqual(messages[0].eventType, "newPost");
+        should.strictEqual(messages[0].eventData.post.body, "new post");
+    });
+    
+    await harness.testAsync("resume from last event id", async () => {
+        const epoch = harness.server.dispatcher.getEpoch();
+        const messages = await receiveMessages(port, "?lastEventId=0&epoch=" + epoch, 1);
+        should.strictEqual(messages[0].eventId, 1);
+        should.strictEqual(messages[0].eventType, "newPost");
+    });
+};
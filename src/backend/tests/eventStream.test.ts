@@ -0,0 +1,93 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+import * as http from "http";
+import * as zlib from "zlib";
+
+// opens the event stream with gzip compression (to make sure that each event is flushed through the compression
+// middleware) and resolves the stream text once 'expectedText' appears.  rejects if it doesn't appear within 5 seconds.
+function readStream(port: number, query: string, headers: any, expectedText: string): Promise<string> {
+    headers["Accept-Encoding"] = "gzip";
+    return new Promise<string>((resolve, reject) => {
+        var text = "";
+        const req = http.get({ host: "localhost", port: port, path: "/v3/eventStream" + query, headers: headers },
+            res => {
+                should.strictEqual(res.headers["content-type"], "text/event-stream; charset=utf-8");
+                const gunzip = zlib.createGunzip();
+                res.pipe(gunzip);
+                gunzip.on("data", (chunk: Buffer) => {
+                    text += chunk.toString();
+                    if (text.indexOf(expectedText) !== -1) {
+                        clearTimeout(timer);
+                        req.abort();
+                        resolve(text);
+                    }
+                });
+            });
+        const timer = setTimeout(() => {
+            req.abort();
+            reject(new Error("Timed out.  Received: " + text));
+        }, 5000);
+    });
+}
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const port = harness.server.getPort();
+    
+    await harness.test("new thread",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, text: "new post" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 1 })
+    );
+    
+    await harness.testAsync("missed events", async () => {
+        const text = await readStream(port, "?lastEventId=0", {}, "\n\n" + "id: 1\n");
+        const data = JSON.parse(text.split("id: 1\ndata: ")[1].split("\n")[0]);
+        should.strictEqual(data.eventId, 1);
+        should.strictEqual(data.eventType, "newPost");
+    });
+    
+    await harness.testAsync("new event", async () => {
+        setTimeout(() => {
+            supertest(harness.server.app)
+                .post("/v2/postComment")
+                .type("form")
+                .send({ username: "user", password: "pass", parentId: 0, text: "another post" })
+                .end(() => {});
+        }, 200);
+        const text = await readStream(port, "", {}, "\"eventId\":2");
+        should.strictEqual(text.indexOf("id: 1\n"), -1);
+    });
+    
+    await harness.testAsync("resume with Last-Event-ID", async () => {
+        const text = await readStream(port, "?lastEventId=0", { "Last-Event-ID": "1" }, "\"eventId\":2");
+        should.strictEqual(text.indexOf("id: 1\n"), -1);
+    });
+    
+    await harness.testAsync("old epoch", async () => {
+        const text = await readStream(port, "?lastEventId=0&epoch=0000000000000000", {}, "ERR_TOO_MANY_EVENTS");
+        should.notStrictEqual(text.indexOf("event: apiError\n"), -1);
+    });
+};
@@ -0,0 +1,119 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("new thread",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, text: "new post" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 1 })
+    );
+    
+    await harness.test("invalid tag",
+        supertest(harness.server.app)
+        .post("/v3/tagPost")
+        .type("form")
+        .send({ username: "user", password: "pass", postId: 1, tag: "meh" })
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+    
+    await harness.test("invalid post",
+        supertest(harness.server.app)
+        .post("/v3/tagPost")
+        .type("form")
+        .send({ username: "user", password: "pass", postId: 2, tag: "lol" })
+        .expect(harness.isError("ERR_INVALID_POST"))
+    );
+    
+    await harness.test("tag post",
+        supertest(harness.server.app)
+        .post("/v3/tagPost")
+        .type("form")
+        .send({ username: "user", password: "pass", postId: 1, tag: "lol" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("tag post twice",
+        supertest(harness.server.app)
+        .post("/v3/tagPost")
+        .type("form")
+        .send({ username: "user", password: "pass", postId: 1, tag: "lol" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("tag post as another user",
+        supertest(harness.server.app)
+        .post("/v3/tagPost")
+        .type("form")
+        .send({ username: "mod", password: "pass", postId: 1, tag: "lol" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("get lol counts",
+        supertest(harness.server.app)
+        .get("/v3/getLolCounts?id=1,2")
+        .expect(200)
+        .expect({ counts: [{ postId: 1, tag: "lol", count: 2 }] })
+    );
+    
+    await harness.test("lol counts in thread",
+        supertest(harness.server.app)
+        .get("/v2/getThread?id=1")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(res.body.threads[0].posts[0].lols, [{ tag: "lol", count: 2 }]);
+        })
+    );
+    
+    await harness.test("lol counts update event",
+        supertest(harness.server.app)
+        .get("/v2/waitForEvent?lastEventId=1")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.events.length, 1);
+            should.strictEqual(res.body.events[0].eventType, "lolCountsUpdate");
+            should.deepEqual(res.body.events[0].eventData.updates, [{ postId: 1, tag: "lol", count: 2 }]);
+        })
+    );
+    
+    await harness.test("untag post",
+        supertest(harness.server.app)
+        .post("/v3/untagPost")
+        .type("form")
+        .send({ username: "user", password: "pass", postId: 1, tag: "lol" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("get lol counts after untag",
+        supertest(harness.server.app)
+        .get("/v3/getLolCounts?id=1")
+        .expect(200)
+        .expect({ counts: [{ postId: 1, tag: "lol", count: 1 }] })
+    );
+};
@@ -0,0 +1,210 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const richClientId = "5e1d6d8e-8d0a-4c4f-9b8e-1f6a2c3d4e5f";
+    const notifierClientId = "0b7a5c1e-3f2d-4e6a-8c9b-7d1e2f3a4b5c";
+
+    await harness.test("generate id",
+        supertest(harness.server.app)
+        .get("/v2/notifications/generateId")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.id.length, 36);
+        })
+    );
+
+    await harness.test("wait with unknown client",
+        supertest(harness.server.app)
+        .post("/v2/notifications/waitForNotification")
+        .type("form")
+        .send({ clientId: richClientId })
+        .expect(harness.isError("ERR_UNKNOWN_CLIENT_ID"))
+    );
+
+    await harness.test("register notifier client",
+        supertest(harness.server.app)
+        .post("/v2/notifications/registerNotifierClient")
+        .type("form")
+        .send({ id: notifierClientId, name: "notifier" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+
+    await harness.test("wait with unattached client",
+        supertest(harness.server.app)
+        .post("/v2/notifications/waitForNotification")
+        .type("form")
+        .send({ clientId: notifierClientId })
+        .expect(harness.isError("ERR_CLIENT_NOT_ASSOCIATED"))
+    );
+
+    await harness.test("notifier login page",
+        supertest(harness.server.app)
+        .get("/v2/notifications/ui/login?clientId=" + notifierClientId)
+        .expect(200)
+        .expect("Content-Type", /text\/html/)
+        .expect((res: supertest.Response) => {
+            should.ok(res.text.indexOf("value=\"" + notifierClientId + "\"") >= 0);
+        })
+    );
+
+    await harness.test("notifier login with wrong password",
+        supertest(harness.server.app)
+        .post("/v2/notifications/ui/login")
+        .type("form")
+        .send({ clientId: notifierClientId, username: "user", password: "wrong" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.ok(res.text.indexOf("Invalid username or password.") >= 0);
+            should.ok(res.text.indexOf("<form") >= 0);
+        })
+    );
+
+    await harness.test("notifier login with unknown client",
+        supertest(harness.server.app)
+        .post("/v2/notifications/ui/login")
+        .type("form")
+        .send({ clientId: "00000000-0000-0000-0000-000000000000", username: "user", password: "pass" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.ok(res.text.indexOf("The client ID is not registered.") >= 0);
+        })
+    );
+
+    await harness.test("notifier login",
+        supertest(harness.server.app)
+        .post("/v2/notifications/ui/login")
+        .type("form")
+        .send({ clientId: notifierClientId, username: "user", password: "pass" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.ok(res.text.indexOf("attached to user") >= 0);
+        })
+    );
+
+    await harness.test("register rich client",
+        supertest(harness.server.app)
+        .post("/v2/notifications/registerRichClient")
+        .type("form")
+        .send({ id: richClientId, name: "rich client", username: "user", password: "pass" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+
+    await harness.test("set user setup",
+        supertest(harness.server.app)
+        .post("/v2/notifications/setUserSetup")
+        .type("form")
+        .send({ username: "user", password: "pass", triggerOnReply: true, triggerOnMention: false,
+            triggerKeywords: "pizza,tacos" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+
+    await harness.test("get user setup",
+        supertest(harness.server.app)
+        .post("/v2/notifications/getUserSetup")
+        .type("form")
+        .send({ username: "user", password: "pass" })
+        .expect(200)
+        .expect({ triggerOnReply: true, triggerOnMention: false, triggerKeywords: ["pizza", "tacos"] })
+    );
+
+    await harness.test("new thread",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, text: "new post" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 1 })
+    );
+
+    await harness.test("new reply",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "mod", password: "pass", parentId: 1, text: "new reply" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 2 })
+    );
+
+    await harness.test("reply notification",
+        supertest(harness.server.app)
+        .post("/v2/notifications/waitForNotification")
+        .type("form")
+        .send({ clientId: richClientId })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.messages.length, 1);
+            should.strictEqual(res.body.messages[0].subject, "Reply from mod");
+            should.strictEqual(res.body.messages[0].body, "new reply");
+            should.strictEqual(res.body.messages[0].postId, 2);
+            should.strictEqual(res.body.messages[0].threadId, 1);
+        })
+    );
+
+    await harness.test("reply notification for the notifier client",
+        supertest(harness.server.app)
+        .post("/v2/notifications/waitForNotification")
+        .type("form")
+        .send({ clientId: notifierClientId })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.messages.length, 1);
+            should.strictEqual(res.body.messages[0].subject, "Reply from mod");
+        })
+    );
+
+    await harness.test("detach account",
+        supertest(harness.server.app)
+        .post("/v2/notifications/detachAccount")
+        .type("form")
+        .send({ clientId: richClientId, username: "user", password: "pass" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+
+    await harness.test("wait after detach",
+        supertest(harness.server.app)
+        .post("/v2/notifications/waitForNotification")
+        .type("form")
+        .send({ clientId: richClientId })
+        .expect(harness.isError("ERR_CLIENT_NOT_ASSOCIATED"))
+    );
+
+    await harness.testAsync("oldest unattached clients are evicted", async () => {
+        const connector = harness.server.notificationConnector;
+        await connector.registerNotifierClient("oldest", "notifier");
+        for (var i = 0; i < 1000; i++) {
+            await connector.registerNotifierClient("client " + i, "notifier");
+        }
+        try {
+            await connector.attachAccount("oldest", "user");
+            should.fail("attachAccount should have rejected");
+        } catch (ex) {
+            should.strictEqual(ex.name, "ERR_UNKNOWN_CLIENT_ID");
+        }
+        await connector.attachAccount("client 0", "user");
+    });
+};
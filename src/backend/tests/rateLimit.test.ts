@@ -0,0 +1,119 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    for (var i = 1; i <= 10; i++) {
+        await harness.test("post " + i + " is within the limit",
+            supertest(harness.server.app)
+            .post("/v2/postComment")
+            .type("form")
+            .set("X-Forwarded-For", "10.0.0.1")
+            .send({ username: "user", password: "pass", parentId: 0, text: "post " + i })
+            .expect(200)
+        );
+    }
+    
+    await harness.test("post over the limit",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .set("X-Forwarded-For", "10.0.0.1")
+        .send({ username: "user", password: "pass", parentId: 0, text: "one too many" })
+        .expect(harness.isError("ERR_RATE_LIMIT"))
+        .expect((res: supertest.Response) => {
+            const retryAfter = parseInt(res.get("Retry-After"), 10);
+            should.ok(retryAfter >= 1 && retryAfter <= 60);
+        })
+    );
+    
+    await harness.test("reads have a separate budget",
+        supertest(harness.server.app)
+        .get("/v2/getChatty")
+        .set("X-Forwarded-For", "10.0.0.1")
+        .expect(200)
+    );
+    
+    await harness.test("other addresses have their own budget",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .set("X-Forwarded-For", "10.0.0.2")
+        .send({ username: "mod", password: "pass", parentId: 0, text: "from another address" })
+        .expect(200)
+    );
+    
+    var token: string = null;
+    await harness.test("login",
+        supertest(harness.server.app)
+        .post("/v3/login")
+        .type("form")
+        .set("X-Forwarded-For", "10.0.0.1")
+        .send({ username: "user", password: "pass" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            token = res.body.token;
+        })
+    );
+    
+    await harness.test("requests with a session token are counted against the user",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .set("X-Forwarded-For", "10.0.0.1")
+        .send({ token: token, parentId: 0, text: "counted against user" })
+        .expect(200)
+    );
+    
+    await harness.test("legacy v1 post over the limit",
+        supertest(harness.server.app)
+        .post("/v1/post/")
+        .type("form")
+        .set("X-Forwarded-For", "10.0.0.1")
+        .auth("user", "pass")
+        .send({ parent_id: "", body: "one too many" })
+        .expect(400)
+        .expect("Content-Type", /text\/plain/)
+        .expect("error_post_rate_limit")
+    );
+    
+    for (var j = 1; j <= 10; j++) {
+        await harness.test("message " + j + " is within the limit",
+            supertest(harness.server.app)
+            .post("/v2/sendMessage")
+            .type("form")
+            .send({ username: "mod", password: "pass", to: "user", subject: "message " + j, body: "hello" })
+            .expect(200)
+        );
+    }
+    
+    await harness.test("legacy v1 message over the limit",
+        supertest(harness.server.app)
+        .post("/v1/messages/send/")
+        .type("form")
+        .auth("mod", "pass")
+        .send({ to: "user", subject: "one too many", body: "hello" })
+        .expect(400)
+        .expect("Content-Type", /text\/plain/)
+        .expect("error_send_failed")
+    );
+};
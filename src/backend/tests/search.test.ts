@@ -17,6 +17,10 @@
 /// <reference path="../../../typings/tsd.d.ts" />
 "use strict";
 
+import * as fs from "fs";
+import * as lodash from "lodash";
+import * as os from "os";
+import * as path from "path";
 import * as webchatty from "./../webchatty";
 import * as supertest from "supertest";
 import * as should from "should";
@@ -111,4 +115,267 @@ module.exports = async (harness: webchatty.TestHarness) => {
         })
     );
     
+    function searchResultIds(terms: string, expectedIds: number[]) {
+        return supertest(harness.server.app)
+            .get("/v2/search?terms=" + encodeURIComponent(terms))
+            .expect(200)
+            .expect((res: supertest.Response) => {
+                should.deepEqual(res.body.posts.map((x: any) => x.id), expectedIds);
+            });
+    }
+    
+    await harness.test("search terms are all required", searchResultIds("new post", [1]));
+    await harness.test("phrase search", searchResultIds("\"new reply\"", [2]));
+    await harness.test("phrase search requires the words in order", searchResultIds("\"reply new\"", []));
+    await harness.test("OR search", searchResultIds("post OR reply", [2, 1]));
+    await harness.test("exclusion", searchResultIds("new -reply", [1]));
+    await harness.test("excluded phrase", searchResultIds("new -\"new reply\"", [1]));
+    await harness.test("author filter", searchResultIds("new author:MOD", [2]));
+    await harness.test("author filter with quotes", searchResultIds("author:\"user\"", [1]));
+    await harness.test("category filter", searchResultIds("new category:informative", [2]));
+    await harness.test("excluded category", searchResultIds("new -category:informative", [1]));
+    
+    const malformedQueries = ["\"new reply", "OR new", "new OR", "new OR OR reply", "new OR -reply", "- new", 
+        "author:", "category:nuked", "\"\"", "-new"];
+    for (var i = 0; i < malformedQueries.length; i++) {
+        await harness.test("malformed query: " + malformedQueries[i],
+            supertest(harness.server.app)
+            .get("/v2/search?terms=" + encodeURIComponent(malformedQueries[i]))
+            .expect(harness.isError("ERR_ARGUMENT"))
+        );
+    }
+    
+    await harness.test("exclusion combined with a filter parameter",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=-reply&author=mod")
+        .expect(200)
+        .expect({ posts: [], totalCount: 0 })
+    );
+    
+    await harness.test("reindex without administrator credentials",
+        supertest(harness.server.app)
+        .post("/v2/requestReindex")
+        .type("form")
+        .send({ username: "mod", password: "pass" })
+        .expect(harness.isError("ERR_INVALID_LOGIN"))
+    );
+    
+    await harness.test("reindex",
+        supertest(harness.server.app)
+        .post("/v2/requestReindex")
+        .type("form")
+        .send({ username: "admin", password: "pass" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.testAsync("wait for reindex", async () => {
+        await harness.server.searchConnector.rebuildIndex();
+    });
+    
+    await harness.test("reindex status",
+        supertest(harness.server.app)
+        .get("/v2/getReindexStatus")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.isRebuilding, false);
+            should.strictEqual(res.body.progress, 1);
+            should.strictEqual(res.body.postsIndexed, 2);
+            should.ok(Date.parse(res.body.lastRebuildDate) > 0);
+        })
+    );
+    
+    await harness.test("category search after reindex",
+        supertest(harness.server.app)
+        .get("/v2/search?category=informative")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.exist(res.body.posts);
+            shouldBePost2(res.body.posts[0]);
+        })
+    );
+    
+    await harness.test("parent author search after reindex",
+        supertest(harness.server.app)
+        .get("/v2/search?parentAuthor=user")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.exist(res.body.posts);
+            shouldBePost2(res.body.posts[0]);
+        })
+    );
+    
+    await harness.testAsync("oldest posts are evicted", async () => {
+        const connector = new webchatty.MemorySearchConnector({ maxPosts: 4, prunePosts: 3, snapshotFilePath: null,
+            snapshotIntervalMinutes: 10 });
+        connector.injectServer(harness.server);
+        await connector.start();
+        
+        for (var i = 0; i < 2; i++) {
+            await supertest(harness.server.app)
+                .post("/v2/postComment")
+                .type("form")
+                .send({ username: "mod", password: "pass", parentId: 2, text: "another reply" })
+                .expect(200);
+        }
+        
+        const status = await connector.getIndexStatus();
+        should.strictEqual(status.postsIndexed, 3);
+        const params: webchatty.SearchParameters = { terms: null, author: null, parentAuthor: null, category: null, 
+            threadId: null, after: null, before: null, offset: 0, limit: 50, oldestFirst: false, 
+            sort: webchatty.SearchSort.Date };
+        const byAuthor = await connector.search(lodash.assign({}, params, { author: "user" }));
+        should.strictEqual(byAuthor.totalCount, 0);
+        const byParentAuthor = await connector.search(lodash.assign({}, params, { parentAuthor: "mod" }));
+        should.deepEqual(byParentAuthor.posts.map(x => x.id), [4, 3]);
+        const byTerms = await connector.search(lodash.assign({}, params, 
+            { terms: webchatty.parseSearchQuery("reply"), oldestFirst: true }));
+        should.deepEqual(byTerms.posts.map(x => x.id), [2, 3, 4]);
+    });
+    
+    await harness.test("new post with a spoiler",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, text: "zebra zebra zebra o[secret zebra]o" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 5 })
+    );
+    
+    await harness.test("new post with a long body",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, 
+            text: new Array(41).join("filler ") + "zebra and giraffe" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 6 })
+    );
+    
+    await harness.test("date sort", searchResultIds("zebra", [6, 5]));
+    
+    await harness.test("relevance sort",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=zebra&sort=relevance")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(res.body.posts.map((x: any) => x.id), [5, 6]);
+        })
+    );
+    
+    await harness.test("invalid sort",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=zebra&sort=best")
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+    
+    await harness.test("snippets highlight matches and leave out spoilers",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=zebra+giraffe+OR+zebra")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.posts[0].snippet, "... " + new Array(28).join("filler ") + 
+                "<b>zebra</b> and <b>giraffe</b>");
+            should.strictEqual(res.body.posts[1].snippet, "<b>zebra</b> <b>zebra</b> <b>zebra</b>");
+        })
+    );
+    
+    await harness.test("thread scope",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=reply&threadId=1&oldestFirst=true")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(res.body.posts.map((x: any) => x.id), [2, 3, 4]);
+        })
+    );
+    
+    await harness.test("thread scope by itself",
+        supertest(harness.server.app)
+        .get("/v2/search?threadId=5")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(res.body.posts.map((x: any) => x.id), [5]);
+        })
+    );
+    
+    await harness.test("total count covers every page",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=reply&limit=1&offset=1")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(res.body.posts.map((x: any) => x.id), [3]);
+            should.strictEqual(res.body.totalCount, 3);
+        })
+    );
+    
+    await harness.test("posts after a date",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=reply&after=" + encodeURIComponent(new Date(Date.now() - 3600000).toISOString()))
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.totalCount, 3);
+        })
+    );
+    
+    await harness.test("posts before a date",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=reply&before=" + encodeURIComponent(new Date(Date.now() - 3600000).toISOString()))
+        .expect(200)
+        .expect({ posts: [], totalCount: 0 })
+    );
+    
+    await harness.test("date range that is backwards",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=reply&after=2015-02-01T00:00:00Z&before=2015-01-01T00:00:00Z")
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+    
+    await harness.test("invalid date",
+        supertest(harness.server.app)
+        .get("/v2/search?terms=reply&after=yesterday")
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+    
+    await harness.testAsync("snapshot", async () => {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "webchatty-test-"));
+        const options: webchatty.MemorySearchConnectorOptions = { maxPosts: 100, prunePosts: 50, 
+            snapshotFilePath: path.join(tempDir, "search.snapshot"), snapshotIntervalMinutes: 10 };
+        
+        try {
+            const first = new webchatty.MemorySearchConnector(options);
+            first.injectServer(harness.server);
+            await first.start();
+            const firstStatus = await first.getIndexStatus();
+            await first.stop();
+            should.ok(fs.existsSync(options.snapshotFilePath));
+            
+            await supertest(harness.server.app)
+                .post("/v2/postComment")
+                .type("form")
+                .send({ username: "user", password: "pass", parentId: 5, text: "okapi sighting" })
+                .expect(200);
+            
+            const second = new webchatty.MemorySearchConnector(options);
+            second.injectServer(harness.server);
+            await second.start();
+            const secondStatus = await second.getIndexStatus();
+            should.strictEqual(secondStatus.postsIndexed, 7);
+            should.strictEqual(secondStatus.lastRebuildDate.getTime(), firstStatus.lastRebuildDate.getTime());
+            
+            const params: webchatty.SearchParameters = { terms: webchatty.parseSearchQuery("zebra OR okapi"), 
+                author: null, parentAuthor: null, category: null, threadId: null, after: null, before: null, 
+                offset: 0, limit: 50, oldestFirst: false, sort: webchatty.SearchSort.Date };
+            const results = await second.search(params);
+            should.deepEqual(results.posts.map(x => x.id), [7, 6, 5]);
+            const byParentAuthor = await second.search(lodash.assign({}, params, { terms: null, parentAuthor: "user" }));
+            should.deepEqual(byParentAuthor.posts.map(x => x.id), [7, 2]);
+            const byRelevance = await second.search(lodash.assign({}, params, 
+                { terms: webchatty.parseSearchQuery("zebra"), sort: webchatty.SearchSort.Relevance }));
+            should.deepEqual(byRelevance.posts.map(x => x.id), [5, 6]);
+            await second.stop();
+        } finally {
+            fs.readdirSync(tempDir).forEach(x => fs.unlinkSync(path.join(tempDir, x)));
+            fs.rmdirSync(tempDir);
+        }
+    });
 };
@@ -0,0 +1,117 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    var token: string = null;
+    
+    await harness.test("login with wrong password",
+        supertest(harness.server.app)
+        .post("/v3/login")
+        .type("form")
+        .send({ username: "user", password: "invalidpassword" })
+        .expect(harness.isError("ERR_INVALID_LOGIN"))
+    );
+    
+    await harness.test("login",
+        supertest(harness.server.app)
+        .post("/v3/login")
+        .type("form")
+        .send({ username: "user", password: "pass" })
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.token.length, 64);
+            should.strictEqual(res.body.isModerator, false);
+            should.ok(Date.parse(res.body.expirationDate) > new Date().getTime());
+            token = res.body.token;
+        })
+    );
+    
+    await harness.test("post with token",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ token: token, parentId: 0, text: "new post" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 1 })
+    );
+    
+    await harness.test("post author comes from token",
+        supertest(harness.server.app)
+        .get("/v2/getPost?id=1")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.posts[0].author, "user");
+        })
+    );
+    
+    await harness.test("client data with token",
+        supertest(harness.server.app)
+        .post("/v2/clientData/markPost")
+        .type("form")
+        .send({ token: token, postId: 1, type: "pinned" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("client data read with token",
+        supertest(harness.server.app)
+        .post("/v2/clientData/getMarkedPosts")
+        .type("form")
+        .send({ token: token })
+        .expect(200)
+        .expect({ markedPosts: [{ id: 1, type: "pinned" }] })
+    );
+    
+    await harness.test("moderator route with user token",
+        supertest(harness.server.app)
+        .post("/v2/setPostCategory")
+        .type("form")
+        .send({ token: token, postId: 1, category: "nws" })
+        .expect(harness.isError("ERR_NOT_MODERATOR"))
+    );
+    
+    await harness.test("invalid token",
+        supertest(harness.server.app)
+        .post("/v2/getMessageCount")
+        .type("form")
+        .send({ token: "0123456789abcdef" })
+        .expect(harness.isError("ERR_INVALID_TOKEN"))
+    );
+    
+    await harness.test("logout",
+        supertest(harness.server.app)
+        .post("/v3/logout")
+        .type("form")
+        .send({ token: token })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("token after logout",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ token: token, parentId: 0, text: "another post" })
+        .expect(harness.isError("ERR_INVALID_TOKEN"))
+    );
+};
@@ -0,0 +1,87 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as webchatty from "./../webchatty";
+import * as should from "should";
+
+// collapses the whitespace that the SQL is indented with
+function normalize(sql: string): string {
+    return sql.replace(/\s+/g, " ").trim();
+}
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    // the MySQL pool doesn't connect until a query is run, and these tests only build the SQL
+    const connector = new webchatty.ShacknewsSearchConnector(
+        new webchatty.ShacknewsCommon("localhost", 3306, "user", "pass", "database"));
+    const params: webchatty.SearchParameters = { terms: null, author: null, parentAuthor: null, category: null, 
+        threadId: null, after: null, before: null, offset: 0, limit: 50, oldestFirst: false, 
+        sort: webchatty.SearchSort.Date };
+    const fromWhere = "FROM chat_posts AS p INNER JOIN users AS u ON p.user_id = u.id " + 
+        "LEFT JOIN chat_posts AS parent ON p.parent_id = parent.id LEFT JOIN users AS pu ON parent.user_id = pu.id " + 
+        "WHERE p.content_id != 99 AND p.mod_type_id NOT IN (7, 8)";
+    const select = "SELECT p.id, p.root_id AS threadId, p.parent_id AS parentId, u.username AS author, " + 
+        "p.mod_type_id AS category, p.post_time AS date, p.body";
+    
+    await harness.testAsync("term conditions", async () => {
+        const query = connector.buildQuery(lodash.assign({}, params, 
+            { terms: webchatty.parseSearchQuery("zebra OR \"big cat\" author:mod -okapi") }));
+        const where = fromWhere + 
+            " AND (MATCH(p.body) AGAINST (:arg0 IN BOOLEAN MODE) OR MATCH(p.body) AGAINST (:arg1 IN BOOLEAN MODE))" + 
+            " AND (u.username = :arg2) AND NOT MATCH(p.body) AGAINST (:arg3 IN BOOLEAN MODE)";
+        should.strictEqual(normalize(query.countSql), "SELECT COUNT(*) AS count " + where);
+        should.strictEqual(normalize(query.selectSql), select + " " + where + " ORDER BY p.id DESC LIMIT :arg4, :arg5");
+        should.deepEqual(query.values, { arg0: "\"zebra\"", arg1: "\"big cat\"", arg2: "mod", arg3: "\"okapi\"", 
+            arg4: 0, arg5: 50 });
+    });
+    
+    await harness.testAsync("filters", async () => {
+        const after = new Date("2015-01-01T00:00:00Z");
+        const before = new Date("2015-02-01T00:00:00Z");
+        const query = connector.buildQuery(lodash.assign({}, params, { author: "user", parentAuthor: "mod", 
+            category: webchatty.ModerationFlag.Informative, threadId: 5, after: after, before: before, 
+            oldestFirst: true, offset: 50, limit: 25 }));
+        should.strictEqual(normalize(query.selectSql), select + " " + fromWhere + 
+            " AND u.username = :arg0 AND pu.username = :arg1 AND p.mod_type_id = 1 AND p.root_id = :arg2" + 
+            " AND p.post_time >= :arg3 AND p.post_time < :arg4 ORDER BY p.id ASC LIMIT :arg5, :arg6");
+        should.deepEqual(query.values, { arg0: "user", arg1: "mod", arg2: 5, arg3: after, arg4: before, arg5: 50, 
+            arg6: 25 });
+    });
+    
+    await harness.testAsync("on-topic category", async () => {
+        const query = connector.buildQuery(lodash.assign({}, params, { category: webchatty.ModerationFlag.OnTopic }));
+        should.strictEqual(normalize(query.countSql), "SELECT COUNT(*) AS count " + fromWhere + 
+            " AND p.mod_type_id NOT IN (1, 2, 3, 4, 7, 8, 9)");
+    });
+    
+    await harness.testAsync("sort by relevance", async () => {
+        const query = connector.buildQuery(lodash.assign({}, params, 
+            { terms: webchatty.parseSearchQuery("zebra \"big cat\" -okapi"), sort: webchatty.SearchSort.Relevance }));
+        should.ok(lodash.endsWith(normalize(query.selectSql), 
+            " ORDER BY MATCH(p.body) AGAINST (:arg3 IN NATURAL LANGUAGE MODE) DESC, p.id DESC LIMIT :arg4, :arg5"));
+        should.strictEqual(query.values.arg3, "zebra big cat");
+        should.strictEqual(query.countSql.indexOf("NATURAL LANGUAGE"), -1);
+    });
+    
+    await harness.testAsync("sort by relevance without words", async () => {
+        const query = connector.buildQuery(lodash.assign({}, params, 
+            { author: "user", sort: webchatty.SearchSort.Relevance }));
+        should.ok(lodash.endsWith(normalize(query.selectSql), " ORDER BY p.id DESC LIMIT :arg1, :arg2"));
+    });
+};
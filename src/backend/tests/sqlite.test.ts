@@ -0,0 +1,212 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as should from "should";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "webchatty-test-"));
+    const filePath = path.join(tempDir, "webchatty.sqlite");
+    
+    const user = new webchatty.UserCredentials("user", "pass", webchatty.UserAccessLevel.User);
+    const mod = new webchatty.UserCredentials("mod", "pass", webchatty.UserAccessLevel.Moderator);
+    
+    // the connectors share the test server so that their events go through its dispatcher and the client data
+    // connector can check usernames against its accounts
+    function newConnectors(common: webchatty.SqliteCommon) {
+        const result = {
+            account: new webchatty.SqliteAccountConnector(common, [{
+                username: "Seeded",
+                password: "secret",
+                level: webchatty.UserAccessLevel.Moderator,
+                registrationDate: new Date("2015-06-01T00:00:00Z")
+            }]),
+            clientData: new webchatty.SqliteClientDataConnector(common),
+            message: new webchatty.SqliteMessageConnector(common),
+            thread: new webchatty.SqliteThreadConnector(common)
+        };
+        [result.account, result.clientData, result.message, result.thread].forEach(x => x.injectServer(harness.server));
+        return result;
+    }
+    
+    var common = new webchatty.SqliteCommon(filePath);
+    var connectors = newConnectors(common);
+    
+    await harness.testAsync("migrate new database", async () => {
+        await connectors.account.start();
+        await connectors.clientData.start();
+        await connectors.message.start();
+        await connectors.thread.start();
+        should.strictEqual(await common.getSchemaVersion(), 2);
+    });
+    
+    await harness.testAsync("accounts", async () => {
+        should.strictEqual(await connectors.account.userExists("seeded"), true);
+        should.strictEqual(await connectors.account.userExists("nobody"), false);
+        const credentials = await connectors.account.tryLogin("seeded", "secret");
+        should.strictEqual(credentials.username, "Seeded");
+        should.strictEqual(credentials.level, webchatty.UserAccessLevel.Moderator);
+        should.strictEqual(await connectors.account.tryLogin("seeded", "wrong"), null);
+        should.strictEqual(await connectors.account.tryLogin("nobody", "secret"), null);
+        
+        await connectors.account.createAccount("Another", "pw", webchatty.UserAccessLevel.User, 
+            new Date("2016-01-01T00:00:00Z"));
+        await connectors.account.createAccount("another", "pw", webchatty.UserAccessLevel.User, new Date())
+            .then(() => should.fail("duplicate", null), ex => should.strictEqual(ex.name, "ERR_ARGUMENT"));
+        const dates = await connectors.account.getUserRegistrationDates(["ANOTHER", "nobody"]);
+        should.deepEqual(dates.keys(), ["ANOTHER"]);
+        should.strictEqual(dates.get("ANOTHER").getTime(), new Date("2016-01-01T00:00:00Z").getTime());
+        should.strictEqual((await connectors.account.getUserRegistrationDates()).count(), 2);
+    });
+    
+    await harness.testAsync("bans", async () => {
+        await connectors.account.banUser(mod, "Another", "reason", null);
+        await connectors.account.banUser(mod, "Seeded", "expired", new Date(new Date().getTime() - 1000));
+        const ban = await connectors.account.getActiveBan("another");
+        should.strictEqual(ban.moderator, "mod");
+        should.strictEqual(ban.expirationDate, null);
+        should.strictEqual(await connectors.account.getActiveBan("seeded"), null);
+        should.deepEqual((await connectors.account.getActiveBans()).map(x => x.username), ["Another"]);
+        await connectors.account.unbanUser(mod, "another");
+        should.strictEqual(await connectors.account.getActiveBan("another"), null);
+    });
+    
+    await harness.testAsync("threads", async () => {
+        should.strictEqual(await connectors.thread.getNewestPostId(), 0);
+        should.strictEqual(await connectors.thread.postComment(user, 0, "root"), 1);
+        should.strictEqual(await connectors.thread.postComment(mod, 1, "reply"), 2);
+        should.strictEqual(await connectors.thread.postComment(user, 0, "second root"), 3);
+        await connectors.thread.postComment(user, 5, "orphan")
+            .then(() => should.fail("orphan", null), ex => should.strictEqual(ex.name, "ERR_INVALID_PARENT"));
+        
+        should.strictEqual(await connectors.thread.getNewestPostId(), 3);
+        should.deepEqual(await connectors.thread.getActiveThreadIds(10, 18), [3, 1]);
+        await connectors.thread.postComment(user, 2, "bump");
+        should.deepEqual(await connectors.thread.getActiveThreadIds(10, 18), [1, 3]);
+        should.deepEqual(await connectors.thread.getActiveThreadIds(1, 18), [1]);
+        
+        const thread = await connectors.thread.getThreads([2, 1, 99]);
+        should.deepEqual(thread.map(x => x.id).sort(), [1, 2, 4]);
+        const reply = thread.filter(x => x.id === 2)[0];
+        should.strictEqual(reply.threadId, 1);
+        should.strictEqual(reply.parentId, 1);
+        should.strictEqual(reply.author, "mod");
+        should.strictEqual(reply.category, webchatty.ModerationFlag.OnTopic);
+        should.strictEqual(reply.body, "reply");
+        
+        should.deepEqual((await connectors.thread.getPostRange(2, 2, false)).map(x => x.id), [2, 3]);
+        should.deepEqual((await connectors.thread.getPostRange(2, 5, true)).map(x => x.id), [2, 1]);
+        
+        await connectors.thread.setPostCategory(mod, 3, webchatty.ModerationFlag.Nuked);
+        should.strictEqual((await connectors.thread.getPostRange(3, 1, false))[0].category,
+            webchatty.ModerationFlag.Nuked);
+        await connectors.thread.setPostCategory(mod, 99, webchatty.ModerationFlag.Nuked)
+            .then(() => should.fail("invalid post", null), ex => should.strictEqual(ex.name, "ERR_INVALID_POST"));
+    });
+    
+    await harness.testAsync("messages", async () => {
+        await connectors.message.sendMessage(user, "mod", "first", "a < b");
+        await connectors.message.sendMessage(user, "mod", "second", "hello");
+        const inbox = await connectors.message.getMessages(mod, webchatty.Mailbox.Inbox, 0, 50);
+        should.deepEqual(inbox.map(x => x.subject), ["second", "first"]);
+        should.strictEqual(inbox[1].body, "a &lt; b");
+        should.strictEqual(inbox[1].unread, true);
+        should.deepEqual(await connectors.message.getMessageCount(mod, webchatty.Mailbox.Inbox), 
+            { total: 2, unread: 2 });
+        should.deepEqual(await connectors.message.getMessageCount(user, webchatty.Mailbox.Sent), 
+            { total: 2, unread: 0 });
+        
+        await connectors.message.markMessageRead(mod, 1);
+        await connectors.message.markMessageRead(user, 2)
+            .then(() => should.fail("not recipient", null), ex => should.strictEqual(ex.name, "ERR_INVALID_MESSAGE"));
+        should.deepEqual(await connectors.message.getMessageCount(mod, webchatty.Mailbox.Inbox), 
+            { total: 2, unread: 1 });
+        
+        await connectors.message.deleteMessage(mod, 2, webchatty.Mailbox.Inbox);
+        should.deepEqual((await connectors.message.getMessages(mod, webchatty.Mailbox.Inbox, 0, 50)).map(x => x.id), 
+            [1]);
+        should.deepEqual((await connectors.message.getMessages(user, webchatty.Mailbox.Sent, 0, 50)).map(x => x.id), 
+            [2, 1]);
+        await connectors.message.deleteMessage(mod, 2, webchatty.Mailbox.Inbox)
+            .then(() => should.fail("deleted twice", null), ex => should.strictEqual(ex.name, "ERR_INVALID_MESSAGE"));
+    });
+    
+    await harness.testAsync("client data", async () => {
+        should.strictEqual((await connectors.clientData.getModerationFlagFilters("user")).length, 5);
+        await connectors.clientData.setModerationFlagFilters("user", [webchatty.ModerationFlag.Informative]);
+        should.deepEqual(await connectors.clientData.getModerationFlagFilters("USER"), 
+            [webchatty.ModerationFlag.Informative]);
+        
+        await connectors.clientData.setMarkedPost("user", 1, webchatty.MarkedPostType.Pinned);
+        await connectors.clientData.setMarkedPost("user", 1, webchatty.MarkedPostType.Collapsed);
+        const markedPosts = await connectors.clientData.getMarkedPosts("user");
+        should.deepEqual(markedPosts.keys(), [1]);
+        should.strictEqual(markedPosts.get(1), webchatty.MarkedPostType.Collapsed);
+        await connectors.clientData.clearMarkedPosts("user");
+        should.strictEqual((await connectors.clientData.getMarkedPosts("user")).count(), 0);
+        
+        should.strictEqual(await connectors.clientData.getClientData("user", "test"), "");
+        await connectors.clientData.setClientData("user", "test", "abc");
+        should.strictEqual(await connectors.clientData.getClientData("user", "test"), "abc");
+        await connectors.clientData.getClientData("nobody", "test")
+            .then(() => should.fail("nonexistent user", null), ex => should.strictEqual(ex.name, "ERR_ARGUMENT"));
+    });
+    
+    await harness.testAsync("statements outside a rolled back transaction are kept", async () => {
+        const failed = common.transaction(async (tx) => {
+            await tx.execute("INSERT INTO client_data (username, client, data) VALUES ('user', 'inside', 'x')", {});
+            await new Promise<void>(resolve => setTimeout(resolve, 20));
+            return Promise.reject<void>(new Error("rollback"));
+        });
+        const outside = connectors.clientData.setClientData("user", "outside", "y");
+        await failed.then(() => should.fail("rollback", null), ex => should.strictEqual(ex.message, "rollback"));
+        await outside;
+        should.strictEqual(await connectors.clientData.getClientData("user", "inside"), "");
+        should.strictEqual(await connectors.clientData.getClientData("user", "outside"), "y");
+    });
+    
+    await harness.testAsync("concurrent duplicate accounts", async () => {
+        const results = await Promise.all(["Racer", "RACER"].map(username =>
+            connectors.account.createAccount(username, "pw", webchatty.UserAccessLevel.User, new Date())
+                .then(() => "ok", ex => ex.name)));
+        should.deepEqual(results.sort(), ["ERR_ARGUMENT", "ok"]);
+    });
+    
+    await harness.testAsync("data survives a restart", async () => {
+        await common.close();
+        common = new webchatty.SqliteCommon(filePath);
+        connectors = newConnectors(common);
+        await connectors.account.start();
+        await connectors.thread.start();
+        should.strictEqual(await common.getSchemaVersion(), 2);
+        should.strictEqual((await connectors.account.getUserRegistrationDates()).count(), 3);
+        should.strictEqual(await connectors.thread.getNewestPostId(), 4);
+        should.strictEqual(await connectors.thread.postComment(user, 1, "after restart"), 5);
+        should.deepEqual((await connectors.message.getMessages(mod, webchatty.Mailbox.Inbox, 0, 50)).map(x => x.id), 
+            [1]);
+        should.strictEqual(await connectors.clientData.getClientData("user", "test"), "abc");
+    });
+    
+    await common.close();
+    fs.readdirSync(tempDir).forEach(x => fs.unlinkSync(path.join(tempDir, x)));
+    fs.rmdirSync(tempDir);
+};
@@ -0,0 +1,164 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("no stories",
+        supertest(harness.server.app)
+        .get("/v1/stories.json")
+        .expect(200)
+        .expect([])
+    );
+    
+    await harness.test("publish story as non-administrator",
+        supertest(harness.server.app)
+        .post("/v3/publishStory")
+        .type("form")
+        .send({ username: "mod", password: "pass", title: "Headline", preview: "Summary", body: "<p>Body</p>" })
+        .expect(harness.isError("ERR_INVALID_LOGIN"))
+    );
+    
+    await harness.test("publish story",
+        supertest(harness.server.app)
+        .post("/v3/publishStory")
+        .type("form")
+        .send({ username: "admin", password: "pass", title: "Headline", preview: "Summary", body: "<p>Body</p>",
+            url: "http://example.com/headline" })
+        .expect(200)
+        .expect({ result: "success", storyId: 1, threadId: 1 })
+    );
+    
+    await harness.test("story thread was posted",
+        supertest(harness.server.app)
+        .get("/v2/getPost?id=1")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.posts[0].author, "admin");
+            should.strictEqual(res.body.posts[0].parentId, 0);
+        })
+    );
+    
+    await harness.test("reply to story thread",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 1, text: "first" })
+        .expect(200)
+    );
+    
+    await harness.test("get stories",
+        supertest(harness.server.app)
+        .get("/v1/stories.json")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.length, 1);
+            const story = res.body[0];
+            should.strictEqual(story.id, 1);
+            should.strictEqual(story.name, "Headline");
+            should.strictEqual(story.preview, "Summary");
+            should.strictEqual(story.body, "Summary");
+            should.strictEqual(story.url, "http://example.com/headline");
+            should.strictEqual(story.comment_count, 1);
+            should.strictEqual(story.thread_id, "");
+        })
+    );
+    
+    await harness.test("get story",
+        supertest(harness.server.app)
+        .get("/v1/stories/1.json")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.id, 1);
+            should.strictEqual(res.body.name, "Headline");
+            should.strictEqual(res.body.body, "<p>Body</p>");
+            should.strictEqual(res.body.comment_count, 1);
+            should.strictEqual(res.body.thread_id, 1);
+        })
+    );
+    
+    await harness.test("get story with ignored page number",
+        supertest(harness.server.app)
+        .get("/v1/stories/1.5.json")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.id, 1);
+        })
+    );
+    
+    await harness.test("get nonexistent story",
+        supertest(harness.server.app)
+        .get("/v1/stories/2.json")
+        .expect(400)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.faultCode, "AMFPHP_RUNTIME_ERROR");
+        })
+    );
+    
+    await harness.test("edit nonexistent story",
+        supertest(harness.server.app)
+        .post("/v3/editStory")
+        .type("form")
+        .send({ username: "admin", password: "pass", storyId: 2, title: "New", preview: "New", body: "New" })
+        .expect(harness.isError("ERR_INVALID_STORY"))
+    );
+    
+    await harness.test("edit story",
+        supertest(harness.server.app)
+        .post("/v3/editStory")
+        .type("form")
+        .send({ username: "admin", password: "pass", storyId: 1, title: "New headline", preview: "New summary", 
+            body: "<p>New body</p>" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("story was edited",
+        supertest(harness.server.app)
+        .get("/v1/stories/1.json")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.name, "New headline");
+            should.strictEqual(res.body.preview, "New summary");
+            should.strictEqual(res.body.body, "<p>New body</p>");
+            should.strictEqual(res.body.thread_id, 1);
+        })
+    );
+    
+    await harness.testAsync("thread is nuked when the story can't be added", async () => {
+        const connector = harness.server.storyConnector;
+        const addStory = connector.addStory;
+        connector.addStory = () => Promise.reject<number>(new Error("Disk full."));
+        try {
+            await supertest(harness.server.app)
+                .post("/v3/publishStory")
+                .type("form")
+                .send({ username: "admin", password: "pass", title: "Doomed", preview: "Summary", body: "Body" })
+                .expect(harness.isError("ERR_SERVER"));
+        } finally {
+            connector.addStory = addStory;
+        }
+        
+        const post = (await harness.server.threadConnector.getPostRange(3, 1, false))[0];
+        should.strictEqual(post.body.indexOf("Doomed"), 0);
+        should.strictEqual(post.category, webchatty.ModerationFlag.Nuked);
+    });
+};
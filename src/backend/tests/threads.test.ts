@@ -0,0 +1,137 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as lodash from "lodash";
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+const fixture: webchatty.TestFixture = {
+    threads: [
+        {
+            name: "root",
+            author: "user",
+            body: "root post",
+            replies: [
+                {
+                    name: "reply",
+                    author: "mod",
+                    body: "reply",
+                    replies: [
+                        { name: "nested", author: "admin", body: "nested reply" }
+                    ]
+                },
+                {
+                    name: "nuked",
+                    author: "user",
+                    body: "nuked reply",
+                    category: webchatty.ModerationFlag.Nuked,
+                    replies: [
+                        { name: "underNuked", author: "mod", body: "reply to a nuked post" }
+                    ]
+                }
+            ]
+        },
+        { name: "second", author: "mod", body: "second thread" }
+    ]
+};
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    const rootId = harness.postId("root");
+    const replyId = harness.postId("reply");
+    const nestedId = harness.postId("nested");
+    const nukedId = harness.postId("nuked");
+    const secondId = harness.postId("second");
+    
+    await harness.test("get thread without nuked subthreads",
+        harness.request()
+        .get("/v2/getThread?id=" + nestedId)
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.threads.length, 1);
+            should.strictEqual(res.body.threads[0].threadId, rootId);
+            should.deepEqual(lodash.pluck(res.body.threads[0].posts, "id").sort(), [rootId, replyId, nestedId]);
+        })
+    );
+    
+    await harness.test("get multiple threads",
+        harness.request()
+        .get("/v2/getThread?id=" + rootId + "," + secondId)
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(lodash.pluck(res.body.threads, "threadId").sort(), [rootId, secondId]);
+        })
+    );
+    
+    await harness.test("get subthread",
+        harness.request()
+        .get("/v2/getSubthread?id=" + replyId)
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.subthreads[0].subthreadId, replyId);
+            should.deepEqual(lodash.pluck(res.body.subthreads[0].posts, "id").sort(), [replyId, nestedId]);
+        })
+    );
+    
+    await harness.test("get post lineage",
+        harness.request()
+        .get("/v2/getPostLineage?id=" + nestedId)
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(lodash.pluck(res.body.posts[0].lineage, "id"), [nestedId, replyId, rootId]);
+        })
+    );
+    
+    await harness.test("get post lineage of a nuked post",
+        harness.request()
+        .get("/v2/getPostLineage?id=" + nukedId)
+        .expect(200)
+        .expect({ posts: [] })
+    );
+    
+    await harness.test("get parent id",
+        harness.request()
+        .get("/v2/getParentId?id=" + nestedId)
+        .expect(200)
+        .expect({ relationships: [{ childId: nestedId, parentId: replyId }] })
+    );
+    
+    await harness.test("reply to a fixture thread",
+        harness.postAs("user", "/v2/postComment", { parentId: secondId, text: "new reply" })
+        .expect(200)
+        .expect({ result: "success", newPostId: 7 })
+    );
+    
+    await harness.test("nuke a reply",
+        harness.postAs("mod", "/v2/setPostCategory", { postId: replyId, category: "nuked" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("get thread after nuking a reply",
+        harness.request()
+        .get("/v2/getThread?id=" + rootId)
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(lodash.pluck(res.body.threads[0].posts, "id"), [rootId]);
+        })
+    );
+};
+
+module.exports.fixture = fixture;
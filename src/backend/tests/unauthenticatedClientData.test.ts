@@ -0,0 +1,69 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+// legacy clients read client data with only a username
+const fixture: webchatty.TestFixture = {
+    allowUnauthenticatedClientDataReads: true
+};
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("mark post",
+        harness.postAs("user", "/v2/clientData/markPost", { postId: 1, type: "pinned" })
+        .expect(200)
+        .expect({ result: "success" })
+    );
+    
+    await harness.test("read without password",
+        harness.request()
+        .get("/v2/clientData/getMarkedPosts?username=user")
+        .expect(200)
+        .expect({ markedPosts: [{ id: 1, type: "pinned" }] })
+    );
+    
+    await harness.test("read with wrong password",
+        harness.request()
+        .post("/v2/clientData/getMarkedPosts")
+        .type("form")
+        .send({ username: "user", password: "invalidpassword" })
+        .expect(harness.isError("ERR_INVALID_LOGIN"))
+    );
+    
+    await harness.test("write without password",
+        harness.request()
+        .post("/v2/clientData/markPost")
+        .type("form")
+        .send({ username: "user", postId: 2, type: "pinned" })
+        .expect(harness.isError("ERR_ARGUMENT"))
+    );
+    
+    await harness.test("client data is unchanged",
+        harness.request()
+        .get("/v2/clientData/getMarkedPosts?username=user")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(res.body.markedPosts, [{ id: 1, type: "pinned" }]);
+        })
+    );
+};
+
+module.exports.fixture = fixture;
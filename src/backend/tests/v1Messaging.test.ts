@@ -0,0 +1,174 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+const fixture: webchatty.TestFixture = {
+    messages: [
+        { from: "user", to: "admin", subject: "first", body: "first message", read: true },
+        { from: "mod", to: "admin", subject: "second", body: "second message" }
+    ]
+};
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("post without basic auth",
+        supertest(harness.server.app)
+        .post("/v1/post/")
+        .type("form")
+        .send({ parent_id: "", body: "legacy thread" })
+        .expect(400)
+        .expect("Content-Type", /text\/plain/)
+        .expect("error_login_failed")
+    );
+    
+    await harness.test("post with wrong password",
+        supertest(harness.server.app)
+        .post("/v1/post/")
+        .auth("user", "invalidpassword")
+        .type("form")
+        .send({ parent_id: "", body: "legacy thread" })
+        .expect(400)
+        .expect("error_login_failed")
+    );
+    
+    await harness.test("post to a nonexistent parent",
+        supertest(harness.server.app)
+        .post("/v1/post/")
+        .auth("user", "pass")
+        .type("form")
+        .send({ parent_id: "50", body: "legacy reply" })
+        .expect(400)
+        .expect("error_post_failed")
+    );
+    
+    await harness.test("new thread",
+        supertest(harness.server.app)
+        .post("/v1/post/")
+        .auth("user", "pass")
+        .type("form")
+        .send({ parent_id: "", body: "legacy thread" })
+        .expect(200)
+        .expect("")
+    );
+    
+    await harness.test("new reply",
+        supertest(harness.server.app)
+        .post("/v1/post/")
+        .auth("mod", "pass")
+        .type("form")
+        .send({ parent_id: "1", body: "legacy reply" })
+        .expect(200)
+    );
+    
+    await harness.test("posts are visible",
+        supertest(harness.server.app)
+        .get("/v2/getThread?id=1")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            const posts = res.body.threads[0].posts;
+            should.deepEqual(posts.map((x: any) => x.author).sort(), ["mod", "user"]);
+        })
+    );
+    
+    await harness.test("send message to nonexistent user",
+        supertest(harness.server.app)
+        .post("/v1/messages/send/")
+        .auth("user", "pass")
+        .type("form")
+        .send({ to: "nobody", subject: "hello", body: "legacy message" })
+        .expect(400)
+        .expect("error_send_failed")
+    );
+    
+    await harness.test("send message",
+        supertest(harness.server.app)
+        .post("/v1/messages/send/")
+        .auth("user", "pass")
+        .type("form")
+        .send({ to: "mod", subject: "hello", body: "legacy message" })
+        .expect(200)
+        .expect("OK")
+    );
+    
+    await harness.test("get messages with wrong password",
+        supertest(harness.server.app)
+        .post("/v1/messages.json")
+        .auth("mod", "invalidpassword")
+        .expect(400)
+        .expect("error_get_failed")
+    );
+    
+    await harness.test("get messages",
+        supertest(harness.server.app)
+        .post("/v1/messages.json")
+        .auth("mod", "pass")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.user, "mod");
+            should.strictEqual(res.body.messages.length, 1);
+            const message = res.body.messages[0];
+            should.strictEqual(message.id, "3");
+            should.strictEqual(message.from, "user");
+            should.strictEqual(message.to, "mod");
+            should.strictEqual(message.subject, "hello");
+            should.strictEqual(message.unread, true);
+            should.ok(/^[A-Z][a-z]+ [0-9]{1,2}, [0-9]{4}, [0-9]{1,2}:[0-9]{2} [ap]m$/.test(message.date));
+        })
+    );
+    
+    await harness.test("mark message read",
+        supertest(harness.server.app)
+        .post("/v1/messages/3.json")
+        .auth("mod", "pass")
+        .expect(200)
+        .expect("ok")
+    );
+    
+    await harness.test("message is read",
+        supertest(harness.server.app)
+        .post("/v1/messages.json")
+        .auth("mod", "pass")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.messages[0].unread, false);
+        })
+    );
+    
+    await harness.test("mark message read without basic auth",
+        supertest(harness.server.app)
+        .post("/v1/messages/3.json")
+        .expect(400)
+        .expect("error_mark_failed")
+    );
+    
+    await harness.test("get fixture messages",
+        supertest(harness.server.app)
+        .post("/v1/messages.json")
+        .auth("admin", "pass")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.deepEqual(res.body.messages.map((x: any) => [x.id, x.from, x.subject, x.unread]).sort(), 
+                [["1", "user", "first", false], ["2", "mod", "second", true]]);
+        })
+    );
+};
+
+module.exports.fixture = fixture;
@@ -0,0 +1,68 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+const fixture: webchatty.TestFixture = {
+    rateLimits: {
+        read: null,
+        write: { maxRequests: 2, windowSeconds: 60 },
+        post: null,
+        message: null
+    }
+};
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    for (var i = 1; i <= 2; i++) {
+        await harness.test("get messages " + i + " is within the limit",
+            supertest(harness.server.app)
+            .post("/v1/messages.json")
+            .auth("mod", "pass")
+            .expect(200)
+        );
+    }
+    
+    await harness.test("get messages over the limit",
+        supertest(harness.server.app)
+        .post("/v1/messages.json")
+        .auth("mod", "pass")
+        .expect(400)
+        .expect("Content-Type", /text\/plain/)
+        .expect("error_get_failed")
+        .expect((res: supertest.Response) => {
+            should.exist(res.get("Retry-After"));
+        })
+    );
+    
+    await harness.test("mark message read over the limit",
+        supertest(harness.server.app)
+        .post("/v1/messages/1.json")
+        .auth("mod", "pass")
+        .expect(400)
+        .expect("Content-Type", /text\/plain/)
+        .expect("error_mark_failed")
+        .expect((res: supertest.Response) => {
+            should.exist(res.get("Retry-After"));
+        })
+    );
+};
+
+module.exports.fixture = fixture;
@@ -0,0 +1,95 @@
+// WebChatty
+// Copyright (C) 2015 Andy Christianson, Brian Luft, Willie Zutz
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated
+// documentation files (the "Software"), to deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+// permit persons to whom the Software is furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all copies or substantial portions of the
+// Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE
+// WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS
+// OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR
+// OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+
+/// <reference path="../../../typings/tsd.d.ts" />
+"use strict";
+
+import * as webchatty from "./../webchatty";
+import * as supertest from "supertest";
+import * as should from "should";
+
+module.exports = async (harness: webchatty.TestHarness) => {
+    await harness.test("new thread",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "user", password: "pass", parentId: 0, text: "legacy search b[works]b o[secret]o" })
+        .expect(200)
+    );
+    
+    await harness.test("new reply",
+        supertest(harness.server.app)
+        .post("/v2/postComment")
+        .type("form")
+        .send({ username: "mod", password: "pass", parentId: 1, text: "legacy reply" })
+        .expect(200)
+    );
+    
+    await harness.test("search without parameters",
+        supertest(harness.server.app)
+        .get("/v1/search.json")
+        .expect(400)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.faultCode, "AMFPHP_RUNTIME_ERROR");
+        })
+    );
+    
+    await harness.test("search with malformed terms",
+        supertest(harness.server.app)
+        .get("/v1/search.json?terms=%22legacy")
+        .expect(400)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.faultCode, "AMFPHP_RUNTIME_ERROR");
+        })
+    );
+    
+    await harness.test("term search",
+        supertest(harness.server.app)
+        .get("/v1/search.json?terms=legacy")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.terms, "legacy");
+            should.strictEqual(res.body.author, "");
+            should.strictEqual(res.body.parent_author, "");
+            should.strictEqual(res.body.last_page, 1);
+            should.deepEqual(res.body.comments.map((x: any) => x.id), ["2", "1"]);
+            should.strictEqual(res.body.comments[1].author, "user");
+            should.strictEqual(res.body.comments[1].preview, "legacy search works _______");
+            should.ok(/^[A-Z][a-z]{2} [0-9]{2}, [0-9]{4} [0-9]+:[0-9]{2}[ap]m P[DS]T$/
+                .test(res.body.comments[1].date));
+        })
+    );
+    
+    await harness.test("parent author search",
+        supertest(harness.server.app)
+        .get("/v1/search.json?parent_author=user")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.parent_author, "user");
+            should.deepEqual(res.body.comments.map((x: any) => x.id), ["2"]);
+        })
+    );
+    
+    await harness.test("page past the end",
+        supertest(harness.server.app)
+        .get("/v1/search.json?author=user&page=2")
+        .expect(200)
+        .expect((res: supertest.Response) => {
+            should.strictEqual(res.body.last_page, 1);
+            should.deepEqual(res.body.comments, []);
+        })
+    );
+};
@@ -19,6 +19,8 @@
 
 export * from "./api/index";
 export * from "./collections/index";
+export * from "./config/index";
 export * from "./connectors/index";
 export * from "./spec/index";
+export * from "./ConnectorConformanceSuite";
 export * from "./TestHarness";
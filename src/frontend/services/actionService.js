@@ -15,9 +15,9 @@ angular.module('chatty')
             if (username && password) {
                 apiService.login(username, password)
                     .success(function(data) {
-                        var result = data && data.isValid
+                        var result = !!(data && data.token)
                         if (result) {
-                            settingsService.setCredentials(username, password)
+                            settingsService.setCredentials(username, data.token)
                         }
                         deferred.resolve(result)
                     }).error(function() {
@@ -31,6 +31,9 @@ angular.module('chatty')
         }
 
         actionService.logout = function() {
+            if (settingsService.isLoggedIn()) {
+                apiService.logout(settingsService.getToken())
+            }
             settingsService.clearCredentials()
 
             //close reply boxes
@@ -1,5 +1,5 @@
 angular.module('chatty')
-    .service('apiService', function($http) {
+    .service('apiService', function($http, $rootScope, $window) {
         var apiService = {}
 
         apiService.login = function(username, password) {
@@ -8,13 +8,16 @@ angular.module('chatty')
                 password: password
             }
 
-            return post('../v2/verifyCredentials', params)
+            return post('../v3/login', params)
         }
 
-        apiService.submitPost = function(username, password, parentId, body) {
+        apiService.logout = function(token) {
+            return post('../v3/logout', {token: token})
+        }
+
+        apiService.submitPost = function(token, parentId, body) {
             var params = {
-                username: username,
-                password: password,
+                token: token,
                 parentId: parentId,
                 text: body
             }
@@ -34,36 +37,41 @@ angular.module('chatty')
             return $http.get('../v2/getThread?id=' + threadId)
         }
 
-        apiService.waitForEvent = function(lastEventId) {
-            return $http.get('../v2/waitForEvent?lastEventId=' + lastEventId)
+        apiService.openEventStream = function(lastEventId, epoch) {
+            var url = '../v3/eventStream?lastEventId=' + lastEventId
+            if (epoch) {
+                url += '&epoch=' + encodeURIComponent(epoch)
+            }
+            return new $window.EventSource(url)
         }
 
-        apiService.getMarkedPosts = function(username) {
-            return $http.get('../v2/clientData/getMarkedPosts?username=' + encodeURIComponent(username))
+        apiService.getMarkedPosts = function(token) {
+            var params = {
+                token: token
+            }
+            return post('../v2/clientData/getMarkedPosts', params)
         }
 
-        apiService.markPost = function(username, postId, markType) {
+        apiService.markPost = function(token, postId, markType) {
             var params = {
-                username: username,
+                token: token,
                 postId: postId,
                 type: markType
             }
             return post('../v2/clientData/markPost', params)
         }
 
-        apiService.getTotalInboxCount = function(username, password) {
+        apiService.getTotalInboxCount = function(token) {
             var opts = {
-                username: username,
-                password: password
+                token: token
             }
 
             return post('../v2/getMessageCount', opts)
         }
 
-        apiService.getMessages = function(username, password) {
+        apiService.getMessages = function(token) {
             var opts = {
-                username: username,
-                password: password,
+                token: token,
                 folder: 'inbox',
                 page: 1
             }
@@ -85,7 +93,16 @@ angular.module('chatty')
                 data: data
             }
 
-            return $http(config)
+            var request = $http(config)
+            if (params.token) {
+                //the session has expired or been revoked, so the user has to log in again
+                request.error(function(response) {
+                    if (response && response.error && response.code === 'ERR_INVALID_TOKEN') {
+                        $rootScope.$broadcast('session-expired')
+                    }
+                })
+            }
+            return request
         }
 
         return apiService
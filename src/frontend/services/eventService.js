@@ -3,15 +3,19 @@ angular.module('chatty').service('eventService',
              settingsService, tabService, shackMessageService, titleService) {
         var eventService = {}
         var lastEventId = 0
+        var epoch = null
+        var eventSource = null
         var passive = false
 
         //fresh load of full chatty
         eventService.startActive = function() {
+            stopEvents()
             modelService.clear()
 
             apiService.getNewestEventId()
                 .success(function(data) {
                     lastEventId = data.eventId
+                    epoch = data.epoch
                 }).error(function(data) {
                     console.log('Error during getNewestEventId: ', data)
                 })
@@ -28,7 +32,7 @@ angular.module('chatty').service('eventService',
                     handlePinnedThreads()
 
                     //start events
-                    return waitForEvents()
+                    return startEvents()
                 }).error(function(data) {
                     console.log('Error during getChatty: ', data)
                 })
@@ -84,38 +88,56 @@ angular.module('chatty').service('eventService',
             })
         }
 
-        function waitForEvents() {
-            apiService.waitForEvent(lastEventId)
-                .success(function(data) {
-                    eventResponse(data)
-                }).error(function(data) {
-                    console.log('Error during waitForEvent: ', data)
-                    eventResponse(data)
-                })
-        }
-
-        function eventResponse(data) {
-            if (data && !data.error) {
-                lastEventId = data.lastEventId
+        function startEvents() {
+            //the browser reconnects on its own after a dropped connection, resuming from the last event it received
+            eventSource = apiService.openEventStream(lastEventId, epoch)
 
-                //process the events
-                data.events.forEach(newEvent)
+            eventSource.onmessage = function(message) {
+                var event = JSON.parse(message.data)
+                $timeout(function() {
+                    lastEventId = event.eventId
+                    newEvent(event)
+                })
+            }
 
-                //wait for more
-                waitForEvents()
-            } else {
-                if (data && data.error && data.code === 'ERR_TOO_MANY_EVENTS') {
+            eventSource.addEventListener('apiError', function(message) {
+                var data = JSON.parse(message.data)
+                stopEvents()
+                if (data.code === 'ERR_TOO_MANY_EVENTS') {
                     console.log('Too many events since last refresh, reloading chatty.')
-                    eventService.startActive()
+                    $timeout(eventService.startActive)
                 } else {
-                    //restart events in 30s
-                    $timeout(function() {
-                        waitForEvents()
-                    }, 30000)
+                    console.log('Error during eventStream: ', data)
+                    restartEvents()
                 }
+            })
+
+            eventSource.onerror = function() {
+                //closed means the browser gave up reconnecting
+                if (eventSource && eventSource.readyState === $window.EventSource.CLOSED) {
+                    console.log('Event stream closed.')
+                    stopEvents()
+                    restartEvents()
+                }
+            }
+        }
+
+        function stopEvents() {
+            if (eventSource) {
+                eventSource.close()
+                eventSource = null
             }
         }
 
+        function restartEvents() {
+            //restart events in 30s
+            $timeout(function() {
+                if (!eventSource) {
+                    startEvents()
+                }
+            }, 30000)
+        }
+
         function newEvent(event) {
             //store the event for other tabs to process
             if (!passive) {
@@ -32,7 +32,7 @@ angular.module('chatty')
         function postToApi(post) {
             var deferred = $q.defer()
 
-            apiService.submitPost(settingsService.getUsername(), settingsService.getPassword(), post.parentId, post.body)
+            apiService.submitPost(settingsService.getToken(), post.parentId, post.body)
                 .success(function(data) {
                     if (data.result && data.result === 'success') {
                         deferred.resolve(true)
@@ -56,7 +56,8 @@ angular.module('chatty')
 
                     startPosting()
                 }, function(data) {
-                    if (data && data.error && data.code === 'ERR_INVALID_LOGIN') {
+                    if (data && data.error &&
+                        (data.code === 'ERR_INVALID_LOGIN' || data.code === 'ERR_INVALID_TOKEN')) {
                         settingsService.clearCredentials()
                         postService.clearQueue()
                     } else if (data && data.error &&
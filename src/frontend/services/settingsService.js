@@ -1,10 +1,16 @@
 angular.module('chatty')
-    .service('settingsService', function($document, $location, $q, apiService, localStorageService) {
+    .service('settingsService', function($document, $location, $q, $rootScope, apiService, localStorageService) {
         var settingsService = {}
 
         var collapsedThreads = []
         var pinnedThreads = []
-        var credentials = angular.fromJson(localStorageService.get('credentials')) || {username: '', password: ''}
+        var credentials = angular.fromJson(localStorageService.get('credentials')) || {username: '', token: ''}
+
+        //older versions saved the password itself, which is no longer kept around
+        if (credentials.password) {
+            credentials = {username: '', token: ''}
+            localStorageService.remove('credentials')
+        }
 
         settingsService.isCollapsed = function(id) {
             return collapsedThreads.indexOf(Number(id)) >= 0
@@ -13,13 +19,13 @@ angular.module('chatty')
         settingsService.collapseThread = function(id) {
             collapsedThreads.push(id)
             if (settingsService.isLoggedIn()) {
-                apiService.markPost(settingsService.getUsername(), id, 'collapsed')
+                apiService.markPost(settingsService.getToken(), id, 'collapsed')
             }
         }
 
         settingsService.uncollapseThread = function(id) {
             if (settingsService.isLoggedIn() && _.contains(collapsedThreads, id)) {
-                apiService.markPost(settingsService.getUsername(), id, 'unmarked')
+                apiService.markPost(settingsService.getToken(), id, 'unmarked')
             }
             _.pull(collapsedThreads, id)
         }
@@ -27,7 +33,7 @@ angular.module('chatty')
         settingsService.cleanCollapsed = function(posts) {
             _.each(collapsedThreads, function(id) {
                 if (!posts[id]) {
-                    apiService.markPost(settingsService.getUsername(), id, 'unmarked')
+                    apiService.markPost(settingsService.getToken(), id, 'unmarked')
                 }
             })
         }
@@ -43,13 +49,13 @@ angular.module('chatty')
         settingsService.pinThread = function(id) {
             pinnedThreads.push(id)
             if (settingsService.isLoggedIn()) {
-                apiService.markPost(settingsService.getUsername(), id, 'pinned')
+                apiService.markPost(settingsService.getToken(), id, 'pinned')
             }
         }
 
         settingsService.unpinThread = function(id) {
             if (settingsService.isLoggedIn() && _.contains(pinnedThreads, id)) {
-                apiService.markPost(settingsService.getUsername(), id, 'unmarked')
+                apiService.markPost(settingsService.getToken(), id, 'unmarked')
             }
             _.pull(pinnedThreads, id)
         }
@@ -59,30 +65,33 @@ angular.module('chatty')
             return credentials ? credentials.username : ''
         }
 
-        settingsService.getPassword = function() {
-            return credentials.password
+        settingsService.getToken = function() {
+            return credentials.token
         }
 
         settingsService.isLoggedIn = function() {
-            return credentials.username && credentials.password
+            return credentials.username && credentials.token
         }
 
         settingsService.clearCredentials = function() {
             credentials.username = ''
-            credentials.password = ''
+            credentials.token = ''
             localStorageService.remove('credentials')
         }
 
-        settingsService.setCredentials = function(username, password) {
+        //forgetting the token brings back the login form
+        $rootScope.$on('session-expired', settingsService.clearCredentials)
+
+        settingsService.setCredentials = function(username, token) {
             credentials.username = username
-            credentials.password = password
+            credentials.token = token
             localStorageService.set('credentials', credentials)
         }
 
         settingsService.refresh = function() {
             var deferred = $q.defer()
 
-            apiService.getMarkedPosts(settingsService.getUsername())
+            apiService.getMarkedPosts(settingsService.getToken())
                 .success(function(data) {
                     collapsedThreads = []
                     pinnedThreads = []
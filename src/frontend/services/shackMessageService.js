@@ -17,7 +17,7 @@ angular.module('chatty')
         }
 
         shackMessageService.getMessages = function() {
-            return apiService.getMessages(settingsService.getUsername(), settingsService.getPassword())
+            return apiService.getMessages(settingsService.getToken())
                 .error(function(data) {
                     console.log('Error while getting shack messages: ', data)
                     return []
@@ -26,7 +26,7 @@ angular.module('chatty')
 
         shackMessageService.refresh = function() {
             if (settingsService.isLoggedIn()) {
-                apiService.getTotalInboxCount(settingsService.getUsername(), settingsService.getPassword())
+                apiService.getTotalInboxCount(settingsService.getToken())
                     .success(function(data) {
                         shackMessageService.totalMessageCount = data.total
                         shackMessageService.unreadMessageCount = data.unread